@@ -2,6 +2,8 @@
 export TS_NODE_TRANSPILE_ONLY=true
 export TS_NODE_COMPILER_OPTIONS='{"module":"commonjs"}'
 
-npx prisma db push
+# Never start on a half-migrated schema
+npm run db:backfill-games || exit 1
+npx prisma db push || exit 1
 npx prisma db seed
 npm run start
\ No newline at end of file
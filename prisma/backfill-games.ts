@@ -0,0 +1,143 @@
+import { execFileSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { PlayerRole, PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// One-off upgrade for databases created before rounds, roles and eliminations
+// moved from Room/Player onto Game/GameParticipant. Runs before `prisma db push`
+// so the push can make Round.gameId required and drop the legacy columns.
+// Safe to run again: it does nothing once the legacy columns are gone.
+//
+// Such a database may not have the Game tables or Round.gameId yet, so the script
+// first pushes a transitional schema: the current one, but with Round.gameId
+// optional and the legacy columns kept. Nothing is dropped by that push.
+
+interface LegacyRoomRounds {
+  roomId: string;
+  roundIds: string[];
+  startedAt: Date;
+  endedAt: Date | null;
+  wordPairId: string; // Pair of the latest round
+  lastRound: number;
+}
+
+interface LegacyPlayer {
+  id: string;
+  userId: string;
+  role: PlayerRole | null;
+  isActive: boolean;
+}
+
+async function hasColumn(table: string, column: string): Promise<boolean> {
+  const rows = await prisma.$queryRaw<unknown[]>`
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = current_schema() AND table_name = ${table} AND column_name = ${column}`;
+  return rows.length > 0;
+}
+
+/** Replace `search` in the schema, failing loudly if schema.prisma no longer has it */
+function patch(schema: string, search: string, replacement: string): string {
+  if (!schema.includes(search)) throw new Error(`Không tìm thấy trong schema.prisma: ${search}`);
+  return schema.replace(search, replacement);
+}
+
+function pushTransitionalSchema() {
+  let schema = readFileSync(path.join(__dirname, 'schema.prisma'), 'utf8');
+  schema = patch(
+    schema,
+    'game        Game        @relation(fields: [gameId], references: [id])\n  gameId      String\n',
+    'game        Game?       @relation(fields: [gameId], references: [id])\n  gameId      String?\n  roomId      String?\n',
+  );
+  schema = patch(schema, '  isBanned Boolean', '  role     PlayerRole?\n  isBanned Boolean');
+
+  const dir = mkdtempSync(path.join(tmpdir(), 'backfill-games-'));
+  try {
+    const file = path.join(dir, 'schema.prisma');
+    writeFileSync(file, schema);
+    execFileSync('npx', ['prisma', 'db', 'push', '--schema', file, '--skip-generate'], { stdio: 'inherit' });
+  } finally {
+    rmSync(dir, { recursive: true, force: true });
+  }
+}
+
+async function main() {
+  if (!(await hasColumn('Round', 'roomId'))) {
+    console.log('✅ Không có dữ liệu cũ cần chuyển đổi');
+    return;
+  }
+  const hasLegacyRoles = await hasColumn('Player', 'role');
+
+  console.log('🔄 Tạo bảng ván chơi, giữ nguyên các cột cũ...');
+  pushTransitionalSchema();
+
+  console.log('🔄 Gắn các vòng chơi cũ vào ván chơi...');
+
+  const rooms = await prisma.$queryRaw<LegacyRoomRounds[]>`
+    SELECT "roomId",
+           array_agg("id" ORDER BY "roundNumber") AS "roundIds",
+           min("createdAt") AS "startedAt",
+           max("endedAt") AS "endedAt",
+           (array_agg("wordPairId" ORDER BY "roundNumber" DESC))[1] AS "wordPairId",
+           max("roundNumber") AS "lastRound"
+    FROM "Round"
+    WHERE "gameId" IS NULL
+    GROUP BY "roomId"`;
+
+  for (const room of rooms) {
+    const players = hasLegacyRoles
+      ? await prisma.$queryRaw<LegacyPlayer[]>`
+          SELECT "id", "userId", "role"::text AS "role", "isActive"
+          FROM "Player" WHERE "roomId" = ${room.roomId} AND "role" IS NOT NULL`
+      : [];
+
+    await prisma.$transaction(async (tx) => {
+      // Outcome was never recorded for these, so the game is kept but left out of stats
+      const game = await tx.game.create({
+        data: {
+          roomId: room.roomId,
+          wordPairId: room.wordPairId,
+          status: 'ABORTED',
+          startedAt: room.startedAt,
+          endedAt: room.endedAt,
+          participants: {
+            create: players.map((p) => ({
+              playerId: p.id,
+              userId: p.userId,
+              role: p.role!,
+              // The old schema only knew *that* a player was voted out, not when
+              eliminatedRound: p.isActive ? null : room.lastRound,
+            })),
+          },
+        },
+      });
+
+      await tx.$executeRaw`UPDATE "Round" SET "gameId" = ${game.id} WHERE "id" = ANY(${room.roundIds})`;
+
+      // A room still playing would be left IN_PROGRESS with no running game — close it like abortGame does
+      await tx.room.updateMany({ where: { id: room.roomId, status: 'IN_PROGRESS' }, data: { status: 'FINISHED' } });
+
+      // Being voted out no longer removes anyone from the room
+      const eliminated = players.filter((p) => !p.isActive).map((p) => p.id);
+      if (eliminated.length > 0) {
+        await tx.player.updateMany({ where: { id: { in: eliminated } }, data: { isActive: true } });
+      }
+    });
+
+    console.log(`  • Phòng ${room.roomId}: ${room.roundIds.length} vòng, ${players.length} người chơi`);
+  }
+
+  await prisma.$executeRawUnsafe('ALTER TABLE "Round" DROP COLUMN IF EXISTS "roomId"');
+  await prisma.$executeRawUnsafe('ALTER TABLE "Player" DROP COLUMN IF EXISTS "role"');
+
+  console.log(`✅ Đã chuyển ${rooms.length} phòng sang mô hình ván chơi`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
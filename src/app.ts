@@ -5,6 +5,9 @@ import passport from 'passport';
 import authRouter from './routes/auth';
 import roomRouter from './routes/rooms';
 import wordRouter from './routes/words';
+import userRouter from './routes/users';
+import matchRouter from './routes/matches';
+import leaderboardRouter from './routes/leaderboard';
 
 export function createApp() {
   const app = express();
@@ -31,6 +34,9 @@ export function createApp() {
   app.use('/auth', authRouter);
   app.use('/rooms', roomRouter);
   app.use('/words', wordRouter);
+  app.use('/users', userRouter);
+  app.use('/matches', matchRouter);
+  app.use('/leaderboard', leaderboardRouter);
 
   // 404 handler
   app.use((_req, res) => {
@@ -0,0 +1,94 @@
+import { Server as SocketIOServer } from 'socket.io';
+import { verifyBroadcastToken } from './lib/jwt';
+import { BROADCAST_CONFIG, GAME_CONFIG, SOCKET_EVENTS } from './constants';
+import { getGameSnapshot, getGameState, getGhostView, getRoomState } from './services/gameService';
+import { scheduleAt } from './services/timerService';
+import { BroadcastReveal } from './types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Broadcast feed — a read-only namespace for stream overlays
+//
+// Overlays connect with a shareable broadcast token instead of a login. They
+// receive every public room event as it happens, and roles and words only
+// after the room's broadcastDelaySeconds, so a stream can't be used to cheat.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function setupBroadcast(io: SocketIOServer): void {
+  const feed = io.of(BROADCAST_CONFIG.NAMESPACE);
+
+  feed.use((socket, next) => {
+    const payload = verifyBroadcastToken(socket.handshake.auth?.token ?? socket.handshake.query?.token);
+    if (!payload) return next(new Error('Token phát trực tiếp không hợp lệ.'));
+    socket.data.roomId = payload.roomId;
+    next();
+  });
+
+  // No client → server events: the namespace only ever talks
+  feed.on('connection', async (socket) => {
+    const roomId = socket.data.roomId as string;
+    socket.join(roomId);
+
+    const room = await getRoomState(roomId);
+    socket.emit(SOCKET_EVENTS.ROOM_UPDATED, { room });
+    if (room?.status === 'IN_PROGRESS') {
+      const snapshot = await getGameSnapshot(roomId, null);
+      if (snapshot) socket.emit(SOCKET_EVENTS.GAME_SYNC, snapshot);
+    }
+  });
+}
+
+/** Emit a public room event to the players and to the room's broadcast overlays */
+export function toRoom(io: SocketIOServer, roomId: string) {
+  return {
+    emit(event: string, payload: unknown) {
+      io.to(roomId).emit(event, payload);
+      io.of(BROADCAST_CONFIG.NAMESPACE).to(roomId).emit(event, payload);
+    },
+  };
+}
+
+// Reveals waiting out the delay on this node, so the end of the game can release them early
+const pendingReveals = new Map<string, Map<string, BroadcastReveal>>();
+
+const REVEAL_TIMER_KEY = (roomId: string, round: number) => `reveal:${roomId}:${round}`;
+
+/**
+ * Queue the roles and words in play right now for the room's overlays. Call
+ * whenever they change: at the start of a game and when a new pair is drawn.
+ */
+export async function scheduleReveal(io: SocketIOServer, roomId: string): Promise<void> {
+  const state = await getGameState(roomId);
+  const view = await getGhostView(roomId);
+  if (!state || !view) return;
+
+  // Captured now: by the time it fires the game may be over and its state gone
+  const reveal: BroadcastReveal = { ...view, gameId: state.gameId, round: state.roundNumber };
+  const key = REVEAL_TIMER_KEY(roomId, state.roundNumber);
+
+  const pending = pendingReveals.get(roomId) ?? new Map<string, BroadcastReveal>();
+  pending.set(key, reveal);
+  pendingReveals.set(roomId, pending);
+
+  // Games started before the setting existed fall back to the default
+  const delaySeconds = state.settings.broadcastDelaySeconds ?? GAME_CONFIG.BROADCAST_DELAY_SECONDS;
+  scheduleAt(key, Date.now() + delaySeconds * 1000, async () => {
+    pendingReveals.get(roomId)?.delete(key);
+    emitReveal(io, roomId, reveal);
+  });
+}
+
+/** Game over — nothing left to protect, so send whatever is still waiting */
+export function releaseReveals(io: SocketIOServer, roomId: string): void {
+  const pending = pendingReveals.get(roomId);
+  if (!pending) return;
+  pendingReveals.delete(roomId);
+
+  for (const [key, reveal] of pending) {
+    scheduleAt(key, Date.now(), async () => emitReveal(io, roomId, reveal));
+  }
+}
+
+function emitReveal(io: SocketIOServer, roomId: string, reveal: BroadcastReveal): void {
+  io.of(BROADCAST_CONFIG.NAMESPACE).to(roomId).emit(SOCKET_EVENTS.BROADCAST_REVEAL, reveal);
+  if (!pendingReveals.get(roomId)?.size) pendingReveals.delete(roomId);
+}
@@ -1,35 +1,123 @@
 export const GAME_CONFIG = {
   MIN_PLAYERS: 4,
   MAX_PLAYERS: 8,
+  MAX_SPECTATORS: 20,
   WHITE_HAT_MIN_PLAYERS: 6, // White Hat only appears when > 5 players
   HINT_TIME_SECONDS: 60,    // Time per player to give a clue
   VOTE_TIME_SECONDS: 60,    // Time for voting phase
+  GUESS_TIME_SECONDS: 60,   // An eliminated White Hat's time to guess before it counts as wrong
+  DISCUSSION_TIME_SECONDS: 60, // Open chat between the last clue and the vote
+  CLUE_MAX_LENGTH: 50,      // Characters per clue
+  CLUE_MAX_WORDS: 5,
+  RECONNECT_GRACE_SECONDS: 30, // How long a dropped player has to reconnect mid-game
+  BROADCAST_DELAY_SECONDS: 60, // How long stream overlays wait before showing roles and words
+  WORD_REPEAT_WINDOW_DAYS: 30, // Pairs a room member played within this window are drawn last
   ROOM_CODE_LENGTH: 6,
   MAX_ACTIVE_ROOMS: 100,         // Hard cap on simultaneously active rooms in Redis
   ROOM_STATE_TTL_SECONDS: 86400, // Rooms expire after 24h of inactivity
 } as const;
 
+// Bounds for host-chosen room settings (defaults come from GAME_CONFIG)
+export const ROOM_SETTINGS_LIMITS = {
+  MAX_PLAYERS: 12,
+  MIN_PHASE_SECONDS: 10,
+  MAX_PHASE_SECONDS: 300,
+  MAX_CATEGORIES: 20,
+  MAX_CLUE_LENGTH: 200,
+  MAX_CLUE_WORDS: 20,
+  MAX_WHITE_HATS: 3,
+  MAX_DISCUSSION_SECONDS: 300,
+  MIN_BROADCAST_DELAY_SECONDS: 15, // Long enough that a stream can't be watched to cheat
+  MAX_BROADCAST_DELAY_SECONDS: 600,
+} as const;
+
+export const CHAT_CONFIG = {
+  MAX_LENGTH: 200,               // Characters per message
+  HISTORY_LIMIT: 100,            // Messages kept per channel for reconnects
+  RATE_LIMIT_MESSAGES: 5,        // At most this many messages...
+  RATE_LIMIT_WINDOW_SECONDS: 10, // ...per player in this window
+} as const;
+
+export const BROADCAST_CONFIG = {
+  NAMESPACE: '/broadcast',         // Read-only Socket.IO namespace for stream overlays
+  TOKEN_TTL_SECONDS: 86400,
+} as const;
+
+// Private rooms: passwords and signed invite links
+export const ROOM_ACCESS_CONFIG = {
+  PASSWORD_MIN_LENGTH: 4,
+  PASSWORD_MAX_LENGTH: 64,
+  INVITE_TTL_SECONDS: 86400,       // Default lifetime of an invite link
+  MIN_INVITE_TTL_SECONDS: 60,
+  MAX_INVITE_TTL_SECONDS: 604800,  // 7 days
+} as const;
+
+export const LOCK_CONFIG = {
+  TTL_MS: 15_000,       // Safety net for a holder that dies mid-update
+  WAIT_MS: 5_000,       // Give up (room busy) after waiting this long
+  RETRY_DELAY_MS: 25,
+} as const;
+
+export const TIMER_CONFIG = {
+  LEASE_GRACE_MS: 5_000,     // How long past a deadline other nodes wait before adopting its timer
+  SWEEP_INTERVAL_MS: 5_000,  // How often each node looks for orphaned timers
+  BUSY_RETRY_MS: 1_000,      // Retry delay when a deadline fires while the room is locked
+} as const;
+
+export const STATS_CONFIG = {
+  STATS_CACHE_TTL_SECONDS: 300,       // Per-user profile stats
+  LEADERBOARD_CACHE_TTL_SECONDS: 60,  // Also bounds how stale the weekly window can get
+  LEADERBOARD_MAX_LIMIT: 50,
+  MATCH_HISTORY_MAX_LIMIT: 50,
+} as const;
+
+export const RATING_CONFIG = {
+  INITIAL_RATING: 1000,
+  K_FACTOR: 32,
+  PROVISIONAL_K_FACTOR: 48, // Faster movement while a role's rating is still settling
+  PROVISIONAL_GAMES: 10,
+  HISTORY_LIMIT: 50,
+} as const;
+
 export const SOCKET_EVENTS = {
   // Client -> Server
   CREATE_ROOM: 'room:create',
   JOIN_ROOM: 'room:join',
   LEAVE_ROOM: 'room:leave',
   START_GAME: 'game:start',
+  REMATCH: 'room:rematch', // Host reopens a finished room for another game
+  KICK: 'room:kick',       // Host removes a player from the lobby
+  BAN: 'room:ban',         // ...and stops them from rejoining
+  TRANSFER_HOST: 'room:transfer_host',
+  LOCK: 'room:lock',       // Host closes (or reopens) the room to newcomers
   SUBMIT_CLUE: 'game:submit_clue',
   SUBMIT_VOTE: 'game:submit_vote',
   SUBMIT_GUESS: 'game:submit_guess', // White hat's final guess
+  ENTER_GHOST: 'game:ghost', // Eliminated player asks to see every role and word
+  CHAT_MESSAGE: 'chat:message', // Both ways: { content } in, the stored ChatMessage out
 
   // Server -> Client
   ROOM_UPDATED: 'room:updated',
+  REMATCH_STARTED: 'room:rematch_started', // Room is back in the lobby with the same code
+  KICKED: 'room:kicked', // To the removed player only
   GAME_STARTED: 'game:started',
   ROUND_STARTED: 'round:started',
   PLAYER_CLUE_SUBMITTED: 'round:clue_submitted',
   YOUR_TURN_TO_HINT: 'round:your_turn',
   VOTING_PHASE_STARTED: 'round:voting_started',
   VOTE_UPDATE: 'round:vote_update',
+  VOTES_REVEALED: 'round:votes_revealed',    // Every ballot, once voting closes
+  DISCUSSION_STARTED: 'round:discussion_started', // Everyone has spoken — chat until the vote
+  DEFENCE_STARTED: 'round:defence_started',  // Tied players speak before the runoff
+  RUNOFF_STARTED: 'round:runoff_started',    // Revote restricted to the tied players
   PLAYER_ELIMINATED: 'round:player_eliminated',
   GUESSING_PHASE_STARTED: 'round:guessing_started',
   ROUND_RESULT: 'round:result',
   GAME_OVER: 'game:over',
+  GAME_SYNC: 'game:sync', // Private snapshot sent on (re)join during a game
+  CHAT_HISTORY: 'chat:history', // Recent messages of a channel, sent on (re)join
+  GHOST_VIEW: 'game:ghost_view', // Roles and words, to ghosts only (again whenever the pair changes)
+  BROADCAST_REVEAL: 'broadcast:reveal', // Roles and words, to stream overlays after the room's delay
+  SERVER_SHUTDOWN: 'server:shutdown', // This node is going down — reconnect to carry on
   ERROR: 'error',
 } as const;
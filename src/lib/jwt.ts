@@ -1,5 +1,6 @@
 import jwt, { SignOptions } from 'jsonwebtoken';
-import { JwtPayload } from '../types';
+import { BroadcastTokenPayload, InviteTokenPayload, JwtPayload } from '../types';
+import { BROADCAST_CONFIG } from '../constants';
 
 const JWT_SECRET = process.env.JWT_SECRET || 'fallback_secret_change_me';
 
@@ -12,7 +13,37 @@ export function signJwt(payload: Omit<JwtPayload, 'iat' | 'exp'>): string {
 
 export function verifyJwt(token: string): JwtPayload | null {
   try {
-    return jwt.verify(token, JWT_SECRET) as JwtPayload;
+    const payload = jwt.verify(token, JWT_SECRET) as JwtPayload & { scope?: string };
+    // Scoped tokens (broadcast and invite links) are shared publicly and must never log anyone in
+    return payload.scope ? null : payload;
+  } catch {
+    return null;
+  }
+}
+
+export function signBroadcastToken(roomId: string): string {
+  const payload: BroadcastTokenPayload = { scope: 'broadcast', roomId };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: BROADCAST_CONFIG.TOKEN_TTL_SECONDS });
+}
+
+export function verifyBroadcastToken(token: string): BroadcastTokenPayload | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as BroadcastTokenPayload;
+    return payload.scope === 'broadcast' ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+export function signInviteToken(roomId: string, version: number, expiresInSeconds: number): string {
+  const payload: InviteTokenPayload = { scope: 'invite', roomId, version };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: expiresInSeconds });
+}
+
+export function verifyInviteToken(token: string): InviteTokenPayload | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as InviteTokenPayload;
+    return payload.scope === 'invite' ? payload : null;
   } catch {
     return null;
   }
@@ -0,0 +1,55 @@
+import { randomUUID } from 'crypto';
+import { redis } from './redis';
+import { LOCK_CONFIG } from '../constants';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Distributed mutex — SET NX PX to acquire, compare-and-delete to release
+//
+// Works across server instances because it lives in Redis. The TTL only exists
+// so a crashed holder can't wedge the key forever; critical sections are
+// expected to finish well inside it.
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Only delete the key if it still holds our token, so an expired holder
+// can't release a lock someone else has since acquired
+const RELEASE_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+export class LockTimeoutError extends Error {
+  constructor(key: string) {
+    super(`Timed out waiting for lock ${key}`);
+    this.name = 'LockTimeoutError';
+  }
+}
+
+interface LockOptions {
+  ttlMs?: number;  // How long the lock survives a holder that never releases it
+  waitMs?: number; // How long to keep retrying before giving up
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Run `fn` while holding `key`; concurrent callers queue up behind it. */
+export async function withLock<T>(key: string, fn: () => Promise<T>, options: LockOptions = {}): Promise<T> {
+  const ttlMs = options.ttlMs ?? LOCK_CONFIG.TTL_MS;
+  const giveUpAt = Date.now() + (options.waitMs ?? LOCK_CONFIG.WAIT_MS);
+  const token = randomUUID();
+
+  while ((await redis.set(key, token, 'PX', ttlMs, 'NX')) !== 'OK') {
+    if (Date.now() >= giveUpAt) throw new LockTimeoutError(key);
+    // Jitter so a burst of waiters doesn't retry in lockstep
+    await sleep(LOCK_CONFIG.RETRY_DELAY_MS + Math.random() * LOCK_CONFIG.RETRY_DELAY_MS);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await redis.eval(RELEASE_SCRIPT, 1, key, token);
+  }
+}
@@ -0,0 +1,88 @@
+// ─────────────────────────────────────────────────────────────────────────────
+// Vietnamese text normalisation — used to compare free-text guesses to words
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Classifiers that players often put in front of a noun ("quả dâu tây", "con mèo").
+// Only stripped when something is left afterwards, so "con" alone stays "con".
+const LEADING_CLASSIFIERS = [
+  'quả', 'trái', 'con', 'cái', 'chiếc', 'cây', 'bông', 'cuốn', 'quyển', 'tờ', 'bức', 'ngôi', 'tấm', 'đôi',
+];
+
+/** NFC, lowercase, collapsed whitespace, no surrounding punctuation */
+export function normalizeVietnamese(text: string): string {
+  return text
+    .normalize('NFC')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^[\p{P}\p{S}\s]+|[\p{P}\p{S}\s]+$/gu, '');
+}
+
+/** Drop tone and vowel marks ("dâu tây" → "dau tay"); đ becomes d */
+export function stripDiacritics(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .replace(/đ/g, 'd')
+    .replace(/Đ/g, 'D')
+    .normalize('NFC');
+}
+
+/** Remove one leading classifier word from already-normalised text */
+export function stripLeadingClassifier(text: string): string {
+  return stripFirstWordIn(text, LEADING_CLASSIFIERS);
+}
+
+// A guess typed without diacritics carries its classifier without them too ("qua dau tay")
+const TONELESS_CLASSIFIERS = LEADING_CLASSIFIERS.map(stripDiacritics);
+
+function stripFirstWordIn(text: string, words: string[]): string {
+  const [first, ...rest] = text.split(' ');
+  return rest.length && words.includes(first) ? rest.join(' ') : text;
+}
+
+/**
+ * How a guess was matched, from strictest to loosest:
+ * - EXACT: identical after trimming
+ * - NORMALIZED: equal after case / Unicode / whitespace / punctuation normalisation
+ * - CLASSIFIER: equal once a leading classifier word is ignored on either side
+ * - ALIAS: matched one of the pair's accepted aliases (by any of the above)
+ * - TONE_INSENSITIVE: equal only once diacritics are ignored (when allowed)
+ */
+export type GuessMatchType = 'EXACT' | 'NORMALIZED' | 'CLASSIFIER' | 'ALIAS' | 'TONE_INSENSITIVE';
+
+export interface GuessMatchOptions {
+  aliases?: string[];
+  toneInsensitive?: boolean;
+}
+
+function matchOne(guess: string, target: string): Exclude<GuessMatchType, 'ALIAS' | 'TONE_INSENSITIVE'> | null {
+  if (guess.trim() === target.trim()) return 'EXACT';
+
+  const g = normalizeVietnamese(guess);
+  const t = normalizeVietnamese(target);
+  if (!g || !t) return null;
+  if (g === t) return 'NORMALIZED';
+  if (stripLeadingClassifier(g) === stripLeadingClassifier(t)) return 'CLASSIFIER';
+  return null;
+}
+
+function matchToneless(guess: string, target: string): boolean {
+  const g = stripFirstWordIn(stripDiacritics(normalizeVietnamese(guess)), TONELESS_CLASSIFIERS);
+  const t = stripFirstWordIn(stripDiacritics(normalizeVietnamese(target)), TONELESS_CLASSIFIERS);
+  return !!g && g === t;
+}
+
+/** Compare a guess to the target word and its aliases; null when nothing matches */
+export function matchGuess(guess: string, target: string, options: GuessMatchOptions = {}): GuessMatchType | null {
+  const aliases = options.aliases ?? [];
+
+  const direct = matchOne(guess, target);
+  if (direct) return direct;
+  if (aliases.some((alias) => matchOne(guess, alias))) return 'ALIAS';
+
+  if (options.toneInsensitive && [target, ...aliases].some((word) => matchToneless(guess, word))) {
+    return 'TONE_INSENSITIVE';
+  }
+  return null;
+}
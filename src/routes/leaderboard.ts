@@ -0,0 +1,45 @@
+import { Router, Request, Response } from 'express';
+import { PlayerRole } from '@prisma/client';
+import { authMiddleware } from '../middleware/auth';
+import { getLeaderboard, LeaderboardPeriod, LeaderboardSort } from '../services/statsService';
+import { STATS_CONFIG } from '../constants';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+const PERIODS: LeaderboardPeriod[] = ['weekly', 'all'];
+const SORTS: LeaderboardSort[] = ['wins', 'rating'];
+
+// GET /leaderboard - Top players, overall or for one role (`role`, `period`, `sort`, `page`, `limit`)
+router.get('/', async (req: Request, res: Response) => {
+  const { role, period = 'all', sort = 'wins', page = '1', limit = '20' } = req.query as Record<string, string>;
+
+  if (role && !Object.values(PlayerRole).includes(role as PlayerRole)) {
+    res.status(400).json({ message: 'Vai trò không hợp lệ.' });
+    return;
+  }
+  if (!PERIODS.includes(period as LeaderboardPeriod)) {
+    res.status(400).json({ message: 'Khoảng thời gian không hợp lệ.' });
+    return;
+  }
+  if (!SORTS.includes(sort as LeaderboardSort)) {
+    res.status(400).json({ message: 'Tiêu chí xếp hạng không hợp lệ.' });
+    return;
+  }
+
+  const pageNum = Math.max(1, parseInt(page) || 1);
+  const limitNum = Math.min(STATS_CONFIG.LEADERBOARD_MAX_LIMIT, Math.max(1, parseInt(limit) || 20));
+
+  const { entries, total } = await getLeaderboard({
+    period: period as LeaderboardPeriod,
+    sort: sort as LeaderboardSort,
+    role: role as PlayerRole | undefined,
+    page: pageNum,
+    limit: limitNum,
+  });
+
+  res.json({ entries, total, page: pageNum, limit: limitNum });
+});
+
+export default router;
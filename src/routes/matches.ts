@@ -0,0 +1,19 @@
+import { Router, Request, Response } from 'express';
+import { authMiddleware } from '../middleware/auth';
+import { getMatchTimeline } from '../services/matchService';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// GET /matches/:id - Round-by-round timeline of a finished game
+router.get('/:id', async (req: Request, res: Response) => {
+  const match = await getMatchTimeline(req.params.id);
+  if (!match) {
+    res.status(404).json({ message: 'Không tìm thấy trận đấu.' });
+    return;
+  }
+  res.json({ match });
+});
+
+export default router;
@@ -1,6 +1,10 @@
 import { Router, Request, Response } from 'express';
+import { Server as SocketIOServer } from 'socket.io';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma';
 import { authMiddleware } from '../middleware/auth';
+import { signBroadcastToken, signInviteToken, verifyInviteToken } from '../lib/jwt';
+import { hashPassword, verifyPassword } from '../lib/password';
 import {
   getRoomState,
   setRoomState,
@@ -9,13 +13,67 @@ import {
   setRoomCodeMapping,
   getActiveRoomCount,
   trackActiveRoom,
+  addSpectator,
+  removeSpectator,
 } from '../services/gameService';
-import { GAME_CONFIG } from '../constants';
+import { defaultRoomSettings, resolveRoomSettings, validateRoomSettings } from '../services/roomSettings';
+import { BROADCAST_CONFIG, GAME_CONFIG, ROOM_ACCESS_CONFIG, SOCKET_EVENTS } from '../constants';
+import { InviteTokenPayload, RoomState } from '../types';
+import { toRoom } from '../broadcast';
 
 const router = Router();
 
 router.use(authMiddleware);
 
+/** Push a room change made over REST to everyone connected to the room */
+function broadcastRoomUpdated(req: Request, room: RoomState) {
+  const io = req.app.get('io') as SocketIOServer | undefined;
+  if (io) toRoom(io, room.id).emit(SOCKET_EVENTS.ROOM_UPDATED, { room });
+}
+
+/** IDs in `categoryIds` that don't match any WordCategory */
+async function findUnknownCategories(categoryIds: string[]): Promise<string[]> {
+  if (!categoryIds.length) return [];
+  const found = await prisma.wordCategory.findMany({ where: { id: { in: categoryIds } }, select: { id: true } });
+  const known = new Set(found.map((c) => c.id));
+  return categoryIds.filter((id) => !known.has(id));
+}
+
+/** Why `password` can't be a room password, or null if it can */
+function validatePassword(password: unknown): string | null {
+  const { PASSWORD_MIN_LENGTH: min, PASSWORD_MAX_LENGTH: max } = ROOM_ACCESS_CONFIG;
+  if (typeof password !== 'string' || password.length < min || password.length > max) {
+    return `Mật khẩu phòng phải từ ${min} đến ${max} ký tự.`;
+  }
+  return null;
+}
+
+// Body of /rooms/join and /rooms/spectate: a code (plus the password if the room has one) or an invite
+interface AdmissionBody {
+  code?: string;
+  password?: unknown;
+  invite?: string;
+}
+
+const INVITE_INVALID = 'Lời mời không hợp lệ, đã hết hạn hoặc đã bị thu hồi.';
+
+/**
+ * Why a newcomer with these credentials may not enter `room`, or null if they may.
+ * A valid invite stands in for the password; a revoked one is refused even for an open room.
+ */
+async function checkRoomAccess(
+  room: { id: string; passwordHash: string | null; inviteVersion: number },
+  invite: InviteTokenPayload | null,
+  password: unknown,
+): Promise<string | null> {
+  if (invite) {
+    return invite.roomId === room.id && invite.version === room.inviteVersion ? null : INVITE_INVALID;
+  }
+  if (!room.passwordHash) return null;
+  if (typeof password !== 'string' || !password) return 'Phòng có mật khẩu, vui lòng nhập mật khẩu.';
+  return (await verifyPassword(password, room.passwordHash)) ? null : 'Mật khẩu phòng không đúng.';
+}
+
 /** Generate a random uppercase room code */
 function generateRoomCode(length = GAME_CONFIG.ROOM_CODE_LENGTH): string {
   const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
@@ -30,6 +88,28 @@ function generateRoomCode(length = GAME_CONFIG.ROOM_CODE_LENGTH): string {
 router.post('/', async (req: Request, res: Response) => {
   const user = req.currentUser!;
 
+  const validated = validateRoomSettings(req.body?.settings, defaultRoomSettings());
+  if (!validated.success) {
+    res.status(400).json({ message: validated.message });
+    return;
+  }
+  const { settings } = validated;
+
+  const unknownCategories = await findUnknownCategories(settings.categoryIds);
+  if (unknownCategories.length) {
+    res.status(400).json({ message: `Danh mục không tồn tại: ${unknownCategories.join(', ')}.` });
+    return;
+  }
+
+  const password = req.body?.password;
+  if (password !== undefined && password !== null) {
+    const invalid = validatePassword(password);
+    if (invalid) {
+      res.status(400).json({ message: invalid });
+      return;
+    }
+  }
+
   // ── Guard: room quantity limit ──
   const activeCount = await getActiveRoomCount();
   if (activeCount >= GAME_CONFIG.MAX_ACTIVE_ROOMS) {
@@ -49,18 +129,28 @@ router.post('/', async (req: Request, res: Response) => {
 
   // ── DB: create room + host player (for match history reference) ──
   const room = await prisma.room.create({
-    data: { code: code!, hostId: user.id, status: 'WAITING', maxPlayers: GAME_CONFIG.MAX_PLAYERS },
+    data: {
+      code: code!,
+      hostId: user.id,
+      status: 'WAITING',
+      maxPlayers: settings.maxPlayers,
+      settings: settings as unknown as Prisma.InputJsonValue,
+      passwordHash: password ? await hashPassword(password) : null,
+    },
   });
 
   const player = await prisma.player.create({ data: { userId: user.id, roomId: room.id } });
 
   // ── Redis: cache room state + register code mapping + track in set ──
-  const roomState = {
+  const roomState: RoomState = {
     id: room.id,
     code: room.code,
     hostId: room.hostId,
-    status: 'WAITING' as const,
+    status: 'WAITING',
     maxPlayers: room.maxPlayers,
+    isLocked: false,
+    hasPassword: room.passwordHash !== null,
+    settings,
     players: [
       {
         id: player.id,
@@ -69,9 +159,9 @@ router.post('/', async (req: Request, res: Response) => {
         avatar: user.avatar ?? null,
         isActive: true,
         isHost: true,
-        role: null,
       },
     ],
+    spectators: [],
   };
 
   await setRoomState(roomState);
@@ -81,19 +171,24 @@ router.post('/', async (req: Request, res: Response) => {
   res.status(201).json({ message: 'Tạo phòng thành công.', room: roomState });
 });
 
-// POST /rooms/join — Join a room by code
+// POST /rooms/join — Join a room by code (and password) or by invite
 router.post('/join', async (req: Request, res: Response) => {
-  const { code } = req.body as { code: string };
+  const { code, password, invite } = req.body as AdmissionBody;
   const user = req.currentUser!;
 
-  if (!code) {
+  const invitation = invite ? verifyInviteToken(invite) : null;
+  if (invite && !invitation) {
+    res.status(403).json({ message: INVITE_INVALID });
+    return;
+  }
+  if (!code && !invitation) {
     res.status(400).json({ message: 'Vui lòng nhập mã phòng.' });
     return;
   }
 
-  // ── DB: look up room by code + active players ──
+  // ── DB: look up room by code (or the invite's room) + active players ──
   const room = await prisma.room.findUnique({
-    where: { code: code.toUpperCase() },
+    where: invitation ? { id: invitation.roomId } : { code: code!.toUpperCase() },
     include: { players: { where: { isActive: true } } },
   });
 
@@ -115,6 +210,23 @@ router.post('/join', async (req: Request, res: Response) => {
     where: { userId_roomId: { userId: user.id, roomId: room.id } },
   });
 
+  if (existing?.isBanned) {
+    res.status(403).json({ message: 'Bạn đã bị chủ phòng cấm vào phòng này.' });
+    return;
+  }
+  // Players already in the room may still come back (e.g. after a refresh)
+  if (room.isLocked && !existing?.isActive) {
+    res.status(403).json({ message: 'Phòng đã bị khoá.' });
+    return;
+  }
+  if (!existing?.isActive) {
+    const denied = await checkRoomAccess(room, invitation, password);
+    if (denied) {
+      res.status(403).json({ message: denied });
+      return;
+    }
+  }
+
   let playerId: string;
   if (existing) {
     if (!existing.isActive) {
@@ -138,11 +250,12 @@ router.post('/join', async (req: Request, res: Response) => {
         avatar: user.avatar ?? null,
         isActive: true,
         isHost: false,
-        role: null,
       });
     } else {
       alreadyIn.isActive = true;
     }
+    // Watching → seated
+    roomState.spectators = roomState.spectators.filter((s) => s.userId !== user.id);
     await setRoomState(roomState);
   }
 
@@ -150,6 +263,50 @@ router.post('/join', async (req: Request, res: Response) => {
   res.json({ message: 'Tham gia phòng thành công.', room: state });
 });
 
+// POST /rooms/spectate — Watch a room by code (and password) or by invite, including a game already in progress
+router.post('/spectate', async (req: Request, res: Response) => {
+  const { code, password, invite } = req.body as AdmissionBody;
+  const user = req.currentUser!;
+
+  const invitation = invite ? verifyInviteToken(invite) : null;
+  if (invite && !invitation) {
+    res.status(403).json({ message: INVITE_INVALID });
+    return;
+  }
+  if (!code && !invitation) {
+    res.status(400).json({ message: 'Vui lòng nhập mã phòng.' });
+    return;
+  }
+
+  const room = await prisma.room.findUnique({
+    where: invitation ? { id: invitation.roomId } : { code: code!.toUpperCase() },
+  });
+  if (!room || room.status === 'FINISHED') {
+    res.status(404).json({ message: 'Phòng không tồn tại.' });
+    return;
+  }
+
+  const denied = await checkRoomAccess(room, invitation, password);
+  if (denied) {
+    res.status(403).json({ message: denied });
+    return;
+  }
+
+  // ── Redis: spectators live in the cached room state only ──
+  const result = await addSpectator(room.id, {
+    userId: user.id,
+    displayName: user.displayName,
+    avatar: user.avatar ?? null,
+  });
+  if (!result.success) {
+    res.status(400).json({ message: result.message });
+    return;
+  }
+
+  broadcastRoomUpdated(req, result.room!);
+  res.json({ message: 'Bạn đang xem phòng.', room: result.room });
+});
+
 // GET /rooms/:id — Get room info
 router.get('/:id', async (req: Request, res: Response) => {
   const roomState = await getRoomState(req.params.id);
@@ -160,6 +317,171 @@ router.get('/:id', async (req: Request, res: Response) => {
   res.json({ room: roomState });
 });
 
+// POST /rooms/:id/broadcast — Shareable read-only feed for a stream overlay (players only)
+router.post('/:id/broadcast', async (req: Request, res: Response) => {
+  const user = req.currentUser!;
+
+  const roomState = await getRoomState(req.params.id);
+  if (!roomState || roomState.status === 'FINISHED') {
+    res.status(404).json({ message: 'Phòng không tồn tại.' });
+    return;
+  }
+  if (!roomState.players.some((p) => p.userId === user.id && p.isActive)) {
+    res.status(403).json({ message: 'Chỉ người chơi trong phòng mới có thể phát trực tiếp.' });
+    return;
+  }
+
+  res.json({
+    token: signBroadcastToken(roomState.id),
+    namespace: BROADCAST_CONFIG.NAMESPACE,
+    delaySeconds: roomState.settings.broadcastDelaySeconds,
+    expiresIn: BROADCAST_CONFIG.TOKEN_TTL_SECONDS,
+  });
+});
+
+// PUT /rooms/:id/password — Host sets, changes or (with null) removes the room password
+router.put('/:id/password', async (req: Request, res: Response) => {
+  const user = req.currentUser!;
+
+  const room = await prisma.room.findUnique({ where: { id: req.params.id } });
+  if (!room || room.status === 'FINISHED') {
+    res.status(404).json({ message: 'Phòng không tồn tại.' });
+    return;
+  }
+  if (room.hostId !== user.id) {
+    res.status(403).json({ message: 'Chỉ chủ phòng mới có thể đặt mật khẩu.' });
+    return;
+  }
+
+  const password = req.body?.password ?? null;
+  if (password !== null) {
+    const invalid = validatePassword(password);
+    if (invalid) {
+      res.status(400).json({ message: invalid });
+      return;
+    }
+  }
+
+  // ── DB: only the hash is kept, and only here ──
+  const passwordHash = password === null ? null : await hashPassword(password);
+  await prisma.room.update({ where: { id: room.id }, data: { passwordHash } });
+
+  // ── Redis: the room state only says whether there is one ──
+  const roomState = await getRoomState(room.id);
+  if (roomState) {
+    roomState.hasPassword = passwordHash !== null;
+    await setRoomState(roomState);
+    broadcastRoomUpdated(req, roomState);
+  }
+
+  res.json({ message: passwordHash ? 'Đã đặt mật khẩu phòng.' : 'Đã gỡ mật khẩu phòng.', room: roomState });
+});
+
+// POST /rooms/:id/invites — Host issues a signed invite link that skips the password
+router.post('/:id/invites', async (req: Request, res: Response) => {
+  const user = req.currentUser!;
+
+  const room = await prisma.room.findUnique({ where: { id: req.params.id } });
+  if (!room || room.status === 'FINISHED') {
+    res.status(404).json({ message: 'Phòng không tồn tại.' });
+    return;
+  }
+  if (room.hostId !== user.id) {
+    res.status(403).json({ message: 'Chỉ chủ phòng mới có thể tạo lời mời.' });
+    return;
+  }
+
+  const { MIN_INVITE_TTL_SECONDS: min, MAX_INVITE_TTL_SECONDS: max } = ROOM_ACCESS_CONFIG;
+  const expiresIn = req.body?.expiresInSeconds ?? ROOM_ACCESS_CONFIG.INVITE_TTL_SECONDS;
+  if (!Number.isInteger(expiresIn) || expiresIn < min || expiresIn > max) {
+    res.status(400).json({ message: `Thời hạn lời mời phải từ ${min} đến ${max} giây.` });
+    return;
+  }
+
+  res.status(201).json({
+    token: signInviteToken(room.id, room.inviteVersion, expiresIn),
+    code: room.code,
+    expiresIn,
+  });
+});
+
+// DELETE /rooms/:id/invites — Host revokes every invite issued so far
+router.delete('/:id/invites', async (req: Request, res: Response) => {
+  const user = req.currentUser!;
+
+  const room = await prisma.room.findUnique({ where: { id: req.params.id } });
+  if (!room) {
+    res.status(404).json({ message: 'Phòng không tồn tại.' });
+    return;
+  }
+  if (room.hostId !== user.id) {
+    res.status(403).json({ message: 'Chỉ chủ phòng mới có thể thu hồi lời mời.' });
+    return;
+  }
+
+  // Invites carry the version they were issued under, so one bump voids them all
+  await prisma.room.update({ where: { id: room.id }, data: { inviteVersion: { increment: 1 } } });
+
+  res.json({ message: 'Đã thu hồi mọi lời mời.' });
+});
+
+// PATCH /rooms/:id/settings — Host changes the rules while the room is WAITING
+router.patch('/:id/settings', async (req: Request, res: Response) => {
+  const user = req.currentUser!;
+
+  const room = await prisma.room.findUnique({
+    where: { id: req.params.id },
+    include: { players: { where: { isActive: true } } },
+  });
+  if (!room) {
+    res.status(404).json({ message: 'Phòng không tồn tại.' });
+    return;
+  }
+  if (room.hostId !== user.id) {
+    res.status(403).json({ message: 'Chỉ chủ phòng mới có thể thay đổi cài đặt.' });
+    return;
+  }
+  if (room.status !== 'WAITING') {
+    res.status(400).json({ message: 'Không thể thay đổi cài đặt khi trò chơi đang diễn ra.' });
+    return;
+  }
+
+  const validated = validateRoomSettings(req.body, resolveRoomSettings(room.settings));
+  if (!validated.success) {
+    res.status(400).json({ message: validated.message });
+    return;
+  }
+  const { settings } = validated;
+
+  const unknownCategories = await findUnknownCategories(settings.categoryIds);
+  if (unknownCategories.length) {
+    res.status(400).json({ message: `Danh mục không tồn tại: ${unknownCategories.join(', ')}.` });
+    return;
+  }
+
+  if (settings.maxPlayers < room.players.length) {
+    res.status(400).json({ message: `Phòng đang có ${room.players.length} người chơi.` });
+    return;
+  }
+
+  // ── DB: persist settings (maxPlayers is mirrored in its own column for join checks) ──
+  await prisma.room.update({
+    where: { id: room.id },
+    data: { maxPlayers: settings.maxPlayers, settings: settings as unknown as Prisma.InputJsonValue },
+  });
+
+  // ── Redis: reflect in room state ──
+  const roomState = await getRoomState(room.id);
+  if (roomState) {
+    roomState.settings = settings;
+    roomState.maxPlayers = settings.maxPlayers;
+    await setRoomState(roomState);
+    broadcastRoomUpdated(req, roomState);
+  }
+
+  res.json({ message: 'Cập nhật cài đặt thành công.', room: roomState });
+});
+
 // DELETE /rooms/:id/leave — Leave a room
 router.delete('/:id/leave', async (req: Request, res: Response) => {
   const user = req.currentUser!;
@@ -173,6 +495,14 @@ router.delete('/:id/leave', async (req: Request, res: Response) => {
   const player = await prisma.player.findUnique({
     where: { userId_roomId: { userId: user.id, roomId: room.id } },
   });
+  if (!player?.isActive) {
+    const watched = await removeSpectator(room.id, user.id);
+    if (watched) {
+      broadcastRoomUpdated(req, watched);
+      res.json({ message: 'Đã ngừng xem phòng.' });
+      return;
+    }
+  }
   if (!player) {
     res.status(400).json({ message: 'Bạn không ở trong phòng này.' });
     return;
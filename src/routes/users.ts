@@ -0,0 +1,59 @@
+import { Router, Request, Response } from 'express';
+import { prisma } from '../lib/prisma';
+import { authMiddleware } from '../middleware/auth';
+import { listUserMatches } from '../services/matchService';
+import { getUserStats } from '../services/statsService';
+import { getUserRatings } from '../services/ratingService';
+import { PlayerRole } from '@prisma/client';
+import { STATS_CONFIG } from '../constants';
+
+const router = Router();
+
+router.use(authMiddleware);
+
+// GET /users/me/matches - Finished games the current user played in
+router.get('/me/matches', async (req: Request, res: Response) => {
+  const { page = '1', limit = '20' } = req.query as Record<string, string>;
+  const user = req.currentUser!;
+
+  const pageNum = Math.max(1, parseInt(page) || 1);
+  const limitNum = Math.min(STATS_CONFIG.MATCH_HISTORY_MAX_LIMIT, Math.max(1, parseInt(limit) || 20));
+
+  const { matches, total } = await listUserMatches(user.id, pageNum, limitNum);
+  res.json({ matches, total, page: pageNum, limit: limitNum });
+});
+
+// GET /users/:id/stats - Profile statistics (`me` for the current user)
+router.get('/:id/stats', async (req: Request, res: Response) => {
+  const userId = req.params.id === 'me' ? req.currentUser!.id : req.params.id;
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    res.status(404).json({ message: 'Người dùng không tồn tại.' });
+    return;
+  }
+
+  const stats = await getUserStats(user.id);
+  res.json({ user: { id: user.id, displayName: user.displayName, avatar: user.avatar }, stats });
+});
+
+// GET /users/:id/ratings - Skill rating per role and recent changes (`role` to filter)
+router.get('/:id/ratings', async (req: Request, res: Response) => {
+  const userId = req.params.id === 'me' ? req.currentUser!.id : req.params.id;
+  const { role } = req.query as Record<string, string>;
+
+  if (role && !Object.values(PlayerRole).includes(role as PlayerRole)) {
+    res.status(400).json({ message: 'Vai trò không hợp lệ.' });
+    return;
+  }
+
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user) {
+    res.status(404).json({ message: 'Người dùng không tồn tại.' });
+    return;
+  }
+
+  res.json(await getUserRatings(user.id, role as PlayerRole | undefined));
+});
+
+export default router;
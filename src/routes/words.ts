@@ -2,6 +2,9 @@ import { Router, Request, Response } from 'express';
 import { prisma } from '../lib/prisma';
 import { authMiddleware } from '../middleware/auth';
 import { generateWordPair, saveGeneratedWordPair } from '../services/genaiService';
+import { normalizeVietnamese } from '../lib/vietnamese';
+
+const MAX_ALIASES = 10;
 
 const router = Router();
 
@@ -38,10 +41,11 @@ router.get('/', async (req: Request, res: Response) => {
 
 // POST /words - Manually add a word pair
 router.post('/', async (req: Request, res: Response) => {
-  const { wordA, wordB, categoryName } = req.body as {
+  const { wordA, wordB, categoryName, aliases } = req.body as {
     wordA: string;
     wordB: string;
     categoryName: string;
+    aliases?: unknown;
   };
 
   if (!wordA || !wordB || !categoryName) {
@@ -49,13 +53,19 @@ router.post('/', async (req: Request, res: Response) => {
     return;
   }
 
+  const cleanAliases = parseAliases(aliases ?? []);
+  if (!cleanAliases) {
+    res.status(400).json({ message: 'Danh sách từ thay thế không hợp lệ.' });
+    return;
+  }
+
   let category = await prisma.wordCategory.findUnique({ where: { name: categoryName } });
   if (!category) {
     category = await prisma.wordCategory.create({ data: { name: categoryName } });
   }
 
   const pair = await prisma.wordPair.create({
-    data: { wordA, wordB, categoryId: category.id },
+    data: { wordA, wordB, aliases: cleanAliases, categoryId: category.id },
     include: { category: true },
   });
 
@@ -81,6 +91,24 @@ router.post('/generate', async (req: Request, res: Response) => {
   res.status(201).json({ message: 'Tạo cặp từ thành công.', pair });
 });
 
+// PUT /words/:id/aliases - Replace the accepted alternative spellings of wordA
+router.put('/:id/aliases', async (req: Request, res: Response) => {
+  const aliases = parseAliases((req.body as { aliases?: unknown }).aliases);
+  if (!aliases) {
+    res.status(400).json({ message: 'Danh sách từ thay thế không hợp lệ.' });
+    return;
+  }
+
+  const pair = await prisma.wordPair.findUnique({ where: { id: req.params.id } });
+  if (!pair) {
+    res.status(404).json({ message: 'Không tìm thấy cặp từ.' });
+    return;
+  }
+
+  const updated = await prisma.wordPair.update({ where: { id: pair.id }, data: { aliases } });
+  res.json({ message: 'Cập nhật từ thay thế thành công.', pair: updated });
+});
+
 // DELETE /words/:id - Remove a word pair
 router.delete('/:id', async (req: Request, res: Response) => {
   const pair = await prisma.wordPair.findUnique({ where: { id: req.params.id } });
@@ -93,4 +121,11 @@ router.delete('/:id', async (req: Request, res: Response) => {
   res.json({ message: 'Xoá cặp từ thành công.' });
 });
 
+/** Trimmed, de-duplicated, non-empty strings — or null if the input isn't a string array */
+function parseAliases(input: unknown): string[] | null {
+  if (!Array.isArray(input) || input.some((a) => typeof a !== 'string')) return null;
+  const aliases = (input as string[]).map((a) => normalizeVietnamese(a)).filter(Boolean);
+  return aliases.length > MAX_ALIASES ? null : [...new Set(aliases)];
+}
+
 export default router;
@@ -1,26 +1,52 @@
 import 'dotenv/config';
 import http from 'http';
 import app from './app';
-import { setupSocketIO } from './socket';
+import { setupSocketIO, watchPhaseTimers, closeSocketIO } from './socket';
+import { recoverGames } from './services/recoveryService';
 import { prisma } from './lib/prisma';
+import { redis } from './lib/redis';
 
 const PORT = Number(process.env.PORT) || 3000;
+const SHUTDOWN_TIMEOUT_MS = 10_000; // Exit anyway if draining hangs
 
 async function main() {
   const httpServer = http.createServer(app);
   const io = setupSocketIO(httpServer);
+  // REST routes broadcast room changes through the same Socket.IO server
+  app.set('io', io);
+
+  // Rebuild games whose Redis state was lost from the DB, abort the ones that can't be
+  const recovery = await recoverGames();
+  console.log(
+    `[Recovery] Khôi phục ${recovery.restored.length} ván, huỷ ${recovery.aborted.length} ván, ` +
+      `dọn ${recovery.discarded.length} trạng thái cũ`,
+  );
 
   httpServer.listen(PORT, () => {
     console.log(`✅ Word Guesser Server chạy tại http://localhost:${PORT}`);
     console.log(`📡 Socket.IO đã sẵn sàng`);
   });
 
-  process.on('SIGTERM', async () => {
-    console.log('Shutting down...');
-    io.close();
+  // Hint/vote deadlines live in Redis — pick them back up after a restart, and
+  // adopt any left behind by another node that goes down
+  const stopTimerSweep = watchPhaseTimers(io);
+
+  let shuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.log(`${signal} received, shutting down...`);
+    setTimeout(() => process.exit(1), SHUTDOWN_TIMEOUT_MS).unref();
+
+    stopTimerSweep();
+    await closeSocketIO(io);
     await prisma.$disconnect();
+    await redis.quit();
     process.exit(0);
-  });
+  };
+
+  process.on('SIGTERM', () => void shutdown('SIGTERM'));
+  process.on('SIGINT', () => void shutdown('SIGINT'));
 }
 
 main().catch((err) => {
@@ -0,0 +1,91 @@
+import { randomUUID } from 'crypto';
+import { redis } from '../lib/redis';
+import { ChatChannel, ChatMessage, GameState } from '../types';
+import { CHAT_CONFIG, GAME_CONFIG } from '../constants';
+import { getGameState, getRoomState } from './gameService';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Chat Service — room chat and the eliminated players' ghost chat
+//
+// While a game runs, living players may only talk during DISCUSSION, and the
+// eliminated talk among themselves where the living can't hear. History is
+// kept in Redis so a reconnecting player can catch up.
+// ─────────────────────────────────────────────────────────────────────────────
+
+// Ghost chat is keyed by game, so a new game in the room starts with an empty graveyard
+const CHAT_KEY = (roomId: string, channel: ChatChannel, gameId?: string) =>
+  channel === 'GHOST' ? `chat:${roomId}:ghost:${gameId}` : `chat:${roomId}:room`;
+const CHAT_RATE_KEY = (roomId: string, playerId: string) => `chat_rate:${roomId}:${playerId}`;
+
+type ChannelResult = { success: true; channel: ChatChannel } | { success: false; message: string };
+
+/** Which channel `playerId` may write to right now; `state` is null outside a game */
+export function resolveChatChannel(state: GameState | null, playerId: string): ChannelResult {
+  if (!state) return { success: true, channel: 'ROOM' };
+  if (!(playerId in state.roles)) return { success: false, message: 'Bạn không tham gia ván này.' };
+
+  if (state.eliminatedPlayers.includes(playerId)) {
+    // Could still be told the word by someone who has seen it
+    if (state.guesserId === playerId) return { success: false, message: 'Hãy đoán từ trước khi trò chuyện.' };
+    return { success: true, channel: 'GHOST' };
+  }
+
+  if (state.phase !== 'DISCUSSION') {
+    return { success: false, message: 'Chỉ được trò chuyện trong lượt thảo luận.' };
+  }
+  return { success: true, channel: 'ROOM' };
+}
+
+export async function sendChatMessage(
+  roomId: string,
+  playerId: string,
+  content: string,
+): Promise<{ success: boolean; message?: string; chat?: ChatMessage }> {
+  const text = content.trim();
+  if (!text) return { success: false, message: 'Tin nhắn không được để trống.' };
+  if (text.length > CHAT_CONFIG.MAX_LENGTH) {
+    return { success: false, message: `Tin nhắn tối đa ${CHAT_CONFIG.MAX_LENGTH} ký tự.` };
+  }
+
+  const room = await getRoomState(roomId);
+  const player = room?.players.find((p) => p.id === playerId && p.isActive);
+  if (!room || !player) return { success: false, message: 'Bạn không ở trong phòng này.' };
+
+  const state = room.status === 'IN_PROGRESS' ? await getGameState(roomId) : null;
+  const resolved = resolveChatChannel(state, playerId);
+  if (!resolved.success) return resolved;
+
+  if (await isRateLimited(roomId, playerId)) {
+    return { success: false, message: 'Bạn gửi tin nhắn quá nhanh, vui lòng chờ một chút.' };
+  }
+
+  const chat: ChatMessage = {
+    id: randomUUID(),
+    channel: resolved.channel,
+    playerId,
+    displayName: player.displayName,
+    content: text,
+    createdAt: Date.now(),
+  };
+
+  const key = CHAT_KEY(roomId, chat.channel, state?.gameId);
+  await redis.rpush(key, JSON.stringify(chat));
+  await redis.ltrim(key, -CHAT_CONFIG.HISTORY_LIMIT, -1);
+  await redis.expire(key, GAME_CONFIG.ROOM_STATE_TTL_SECONDS);
+
+  return { success: true, chat };
+}
+
+/** Recent messages of one channel, oldest first (`gameId` is needed for GHOST) */
+export async function getChatHistory(roomId: string, channel: ChatChannel, gameId?: string): Promise<ChatMessage[]> {
+  const raw = await redis.lrange(CHAT_KEY(roomId, channel, gameId), 0, -1);
+  return raw.map((r) => JSON.parse(r) as ChatMessage);
+}
+
+/** Fixed window per player: the first message opens it, the window's count caps the rest */
+async function isRateLimited(roomId: string, playerId: string): Promise<boolean> {
+  const key = CHAT_RATE_KEY(roomId, playerId);
+  const count = await redis.incr(key);
+  if (count === 1) await redis.expire(key, CHAT_CONFIG.RATE_LIMIT_WINDOW_SECONDS);
+  return count > CHAT_CONFIG.RATE_LIMIT_MESSAGES;
+}
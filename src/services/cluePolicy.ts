@@ -0,0 +1,70 @@
+import { normalizeVietnamese, stripDiacritics, stripLeadingClassifier } from '../lib/vietnamese';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Clue Policy — what a player is allowed to say on their hint turn
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type ClueRejectionReason = 'EMPTY' | 'TOO_LONG' | 'TOO_MANY_WORDS' | 'CONTAINS_SECRET_WORD' | 'DUPLICATE';
+
+export interface ClueRejection {
+  reason: ClueRejectionReason;
+  message: string;
+}
+
+export interface CluePolicyContext {
+  secretWords: string[];    // Both words of the pair plus accepted aliases
+  previousClues: string[];  // Clues already given this round
+  maxLength: number;
+  maxWords: number;
+}
+
+// Punctuation inside a clue ("dâu,tây") must not hide a word
+function tokenize(text: string): string[] {
+  return text.split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/** True if `phrase`'s words appear consecutively, as whole words, in `words` */
+function containsPhrase(words: string[], phrase: string): boolean {
+  const target = tokenize(phrase);
+  if (!target.length) return false;
+  for (let i = 0; i + target.length <= words.length; i++) {
+    if (target.every((w, j) => words[i + j] === w)) return true;
+  }
+  return false;
+}
+
+/** Returns why the clue is rejected, or null if it may be played */
+export function checkClue(content: string, ctx: CluePolicyContext): ClueRejection | null {
+  const clue = normalizeVietnamese(content);
+  if (!clue) return { reason: 'EMPTY', message: 'Gợi ý không được để trống.' };
+
+  if (content.normalize('NFC').trim().length > ctx.maxLength) {
+    return { reason: 'TOO_LONG', message: `Gợi ý không được dài quá ${ctx.maxLength} ký tự.` };
+  }
+
+  const words = tokenize(clue);
+  if (words.length > ctx.maxWords) {
+    return { reason: 'TOO_MANY_WORDS', message: `Gợi ý không được quá ${ctx.maxWords} từ.` };
+  }
+
+  // "quả dâu tây" leaks through "dâu tây" too, so check each word without its classifier as well.
+  // A phrase is compared without diacritics ("dau tay" gives it away just the same), but a single
+  // syllable keeps them: toneless "cho" would also catch "chợ" in a clue for "chó"
+  const toneless = tokenize(stripDiacritics(clue));
+  const leaked = ctx.secretWords
+    .map(normalizeVietnamese)
+    .filter(Boolean)
+    .flatMap((word) => [word, stripLeadingClassifier(word)])
+    .some((word) =>
+      tokenize(word).length > 1 ? containsPhrase(toneless, stripDiacritics(word)) : containsPhrase(words, word),
+    );
+  if (leaked) {
+    return { reason: 'CONTAINS_SECRET_WORD', message: 'Gợi ý không được chứa từ khoá của cặp từ.' };
+  }
+
+  if (ctx.previousClues.some((prev) => normalizeVietnamese(prev) === clue)) {
+    return { reason: 'DUPLICATE', message: 'Gợi ý này đã có người nói trong vòng này.' };
+  }
+
+  return null;
+}
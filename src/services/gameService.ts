@@ -1,9 +1,27 @@
 import { PlayerRole, Prisma } from '@prisma/client';
 import { prisma } from '../lib/prisma';
 import { redis } from '../lib/redis';
-import { GameState, RoomState, RoomPlayer } from '../types';
-import { getRandomWordPair } from './genaiService';
+import { withLock, LockTimeoutError } from '../lib/lock';
+import { matchGuess, type GuessMatchType } from '../lib/vietnamese';
+import {
+  GameState,
+  GameSnapshot,
+  RoomState,
+  RoomPlayer,
+  RoomSpectator,
+  RoomSettings,
+  GhostView,
+  ConnectionStatus,
+  BallotMode,
+} from '../types';
+import { getRandomWordPair, findEmptyCategories } from './genaiService';
+import { invalidateStats } from './statsService';
+import { applyGameRatings } from './ratingService';
 import { GAME_CONFIG } from '../constants';
+import { resolveRoomSettings } from './roomSettings';
+import { checkClue, type ClueRejectionReason } from './cluePolicy';
+import { countRoles, dealRoles, getRoleDefinition, listRoles, wordForRole } from './roles';
+import { evaluateAlive, evaluateWin, guessWin, type WinReason, type WinResult } from './winConditions';
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Redis Key Helpers
@@ -11,6 +29,7 @@ import { GAME_CONFIG } from '../constants';
 
 const ROOM_KEY = (roomId: string) => `room:${roomId}`;
 const GAME_KEY = (roomId: string) => `game:${roomId}`;
+const GAME_LOCK_KEY = (roomId: string) => `lock:game:${roomId}`;
 const ACTIVE_ROOMS_SET = 'active_rooms'; // sorted set: roomId → createdAt timestamp
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -22,7 +41,12 @@ function serializeRoom(state: RoomState): string {
 }
 
 function deserializeRoom(raw: string): RoomState {
-  return JSON.parse(raw) as RoomState;
+  const parsed = JSON.parse(raw) as RoomState;
+  // Cached before spectators existed
+  parsed.spectators ??= [];
+  parsed.isLocked ??= false;
+  parsed.hasPassword ??= false;
+  return parsed;
 }
 
 function serializeGame(state: GameState): string {
@@ -64,6 +88,9 @@ export async function getRoomState(roomId: string): Promise<RoomState | null> {
     hostId: room.hostId,
     status: room.status,
     maxPlayers: room.maxPlayers,
+    isLocked: room.isLocked,
+    hasPassword: room.passwordHash !== null,
+    settings: resolveRoomSettings(room.settings),
     players: room.players.map(
       (p): RoomPlayer => ({
         id: p.id,
@@ -72,9 +99,10 @@ export async function getRoomState(roomId: string): Promise<RoomState | null> {
         avatar: p.user.avatar,
         isActive: p.isActive,
         isHost: p.userId === room.hostId,
-        role: p.role,
+        ...(p.isBanned ? { isBanned: true } : {}),
       })
     ),
+    spectators: [], // Only ever kept in Redis
   };
 
   // Restore into Redis (warm cache)
@@ -100,6 +128,23 @@ export async function deleteRoomState(roomId: string): Promise<void> {
   await redis.zrem(ACTIVE_ROOMS_SET, roomId);
 }
 
+/** Update a player's connection flag in the cached room state */
+export async function setPlayerConnection(
+  roomId: string,
+  playerId: string,
+  connection: ConnectionStatus,
+): Promise<RoomState | null> {
+  const state = await getRoomState(roomId);
+  if (!state) return null;
+
+  const player = state.players.find((p) => p.id === playerId);
+  if (player) {
+    player.connection = connection;
+    await setRoomState(state);
+  }
+  return state;
+}
+
 /** Look up a room ID by its 6-char join code from Redis */
 export async function getRoomIdByCode(code: string): Promise<string | null> {
   return redis.get(`room_code:${code.toUpperCase()}`);
@@ -148,26 +193,79 @@ async function deleteGameState(roomId: string): Promise<void> {
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Role Assignment
+// Per-room serialisation — every read-modify-write of a GameState runs under
+// this lock, so concurrent events (two last votes, a vote and its deadline)
+// see each other's writes and each phase transition happens exactly once.
 // ─────────────────────────────────────────────────────────────────────────────
 
-function assignRoles(playerCount: number): PlayerRole[] {
-  const roles: PlayerRole[] = [];
-  const hasWhiteHat = playerCount > GAME_CONFIG.WHITE_HAT_MIN_PLAYERS - 1;
+function withGameLock<T>(roomId: string, fn: () => Promise<T>): Promise<T> {
+  return withLock(GAME_LOCK_KEY(roomId), fn);
+}
 
-  roles.push(PlayerRole.BLACK_HAT);
-  if (hasWhiteHat) roles.push(PlayerRole.WHITE_HAT);
+const ROOM_BUSY = { success: false as const, message: 'Phòng đang bận, vui lòng thử lại.' };
 
-  const civilianCount = playerCount - roles.length;
-  for (let i = 0; i < civilianCount; i++) roles.push(PlayerRole.CIVILIAN);
+/** Turn a lock timeout into the caller's "busy" result; anything else is a real error */
+function orBusy<T>(err: unknown, busy: T): T {
+  if (err instanceof LockTimeoutError) return busy;
+  throw err;
+}
 
-  // Shuffle
-  for (let i = roles.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [roles[i], roles[j]] = [roles[j], roles[i]];
-  }
+/** Room IDs currently tracked as active (used to re-arm deadlines on boot) */
+export async function getActiveRoomIds(): Promise<string[]> {
+  return redis.zrange(ACTIVE_ROOMS_SET, 0, -1);
+}
 
-  return roles;
+/** Epoch-ms deadline `seconds` from now */
+function deadlineIn(seconds: number): number {
+  return Date.now() + seconds * 1000;
+}
+
+/**
+ * Build the resync payload for one player from GameState. A null `playerId`
+ * is a spectator, who gets the public part only.
+ */
+export async function getGameSnapshot(roomId: string, playerId: string | null): Promise<GameSnapshot | null> {
+  const state = await getGameState(roomId);
+  if (!state) return null;
+
+  const role = playerId ? state.roles[playerId] ?? null : null;
+  const word = role ? await getWordForPlayer(state.wordPairId, role) : null;
+  const isGhost = !!playerId && !!state.ghosts?.includes(playerId);
+
+  return {
+    roomId,
+    round: state.roundNumber,
+    phase: state.phase,
+    role,
+    word,
+    isEliminated: !!playerId && state.eliminatedPlayers.includes(playerId),
+    isSpectator: !playerId,
+    turnOrder: state.turnOrder,
+    currentPlayerId: currentSpeakerId(state),
+    clues: state.clues,
+    voterIds: Object.keys(state.votes),
+    myVote: playerId ? state.votes[playerId] ?? null : null,
+    votes: state.settings.ballotMode === 'OPEN' ? state.votes : null,
+    eliminatedPlayers: state.eliminatedPlayers,
+    phaseDeadline: state.phaseDeadline,
+    runoffCandidates: state.runoff?.candidates ?? null,
+    ghost: isGhost ? await buildGhostView(state) : null,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Role Assignment
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Why this line-up can't be dealt, or null if it can */
+function checkLineUp(playerCount: number, settings: RoomSettings): string | null {
+  if (countRoles(playerCount, settings).CIVILIAN === 0) {
+    return 'Không đủ người chơi cho số vai đặc biệt đã chọn.';
+  }
+  // Impostors must start outnumbered, or they would win before the first vote
+  const win = evaluateAlive(dealRoles(playerCount, settings));
+  if (win) return `Cần thêm người chơi: ${getRoleDefinition(win.winner).name} sẽ thắng ngay từ đầu.`;
+  return null;
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -178,60 +276,298 @@ export async function startGame(
   roomId: string,
   hostUserId: string,
 ): Promise<{ success: boolean; message?: string; wordPairId?: string }> {
-  const room = await prisma.room.findUnique({
-    where: { id: roomId },
-    include: { players: { where: { isActive: true } } },
-  });
+  return withGameLock(roomId, async () => {
+    const room = await prisma.room.findUnique({
+      where: { id: roomId },
+      include: { players: { where: { isActive: true } } },
+    });
 
-  if (!room) return { success: false, message: 'Phòng không tồn tại.' };
-  if (room.hostId !== hostUserId) return { success: false, message: 'Chỉ chủ phòng mới có thể bắt đầu.' };
-  if (room.status !== 'WAITING') return { success: false, message: 'Trò chơi đã bắt đầu.' };
+    if (!room) return { success: false, message: 'Phòng không tồn tại.' };
+    if (room.hostId !== hostUserId) return { success: false, message: 'Chỉ chủ phòng mới có thể bắt đầu.' };
+    if (room.status !== 'WAITING') return { success: false, message: 'Trò chơi đã bắt đầu.' };
 
-  const activePlayers = room.players;
-  if (activePlayers.length < GAME_CONFIG.MIN_PLAYERS) {
-    return { success: false, message: `Cần ít nhất ${GAME_CONFIG.MIN_PLAYERS} người chơi.` };
-  }
+    const settings = resolveRoomSettings(room.settings);
+    const activePlayers = room.players;
+    if (activePlayers.length < GAME_CONFIG.MIN_PLAYERS) {
+      return { success: false, message: `Cần ít nhất ${GAME_CONFIG.MIN_PLAYERS} người chơi.` };
+    }
+    const lineUpError = checkLineUp(activePlayers.length, settings);
+    if (lineUpError) return { success: false, message: lineUpError };
+
+    const wordPair = await getRandomWordPair(settings.categoryIds, activePlayers.map((p) => p.userId));
+    if (!wordPair) {
+      if (!settings.categoryIds.length) {
+        return { success: false, message: 'Không tìm thấy cặp từ. Vui lòng thêm từ vào hệ thống.' };
+      }
+      const empty = await findEmptyCategories(settings.categoryIds);
+      return { success: false, message: `Không có cặp từ nào trong danh mục: ${empty.join(', ')}.` };
+    }
 
-  const wordPair = await getRandomWordPair();
-  if (!wordPair) {
-    return { success: false, message: 'Không tìm thấy cặp từ. Vui lòng thêm từ vào hệ thống.' };
-  }
+    const roles = dealRoles(activePlayers.length, settings);
+
+    // ── DB: update room status + open game record with everyone's role + first round (match history) ──
+    const game = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      await tx.room.update({ where: { id: roomId }, data: { status: 'IN_PROGRESS' } });
+      const game = await tx.game.create({
+        data: {
+          roomId,
+          wordPairId: wordPair.id,
+          participants: {
+            create: activePlayers.map((p, i) => ({ playerId: p.id, userId: p.userId, role: roles[i] })),
+          },
+        },
+      });
+      await tx.round.create({
+        data: { gameId: game.id, roundNumber: 1, wordPairId: wordPair.id, phase: 'HINTING' },
+      });
+      return game;
+    });
+
+    // ── Redis: initialize GameState ──
+    const shuffledPlayers = [...activePlayers].sort(() => Math.random() - 0.5);
+    const gameState: GameState = {
+      roomId,
+      gameId: game.id,
+      roundNumber: 1,
+      phase: 'HINTING',
+      turnOrder: shuffledPlayers.map((p) => p.id),
+      currentTurnIndex: 0,
+      clues: [],
+      votes: {},
+      eliminatedPlayers: [],
+      roles: Object.fromEntries(activePlayers.map((p, i) => [p.id, roles[i]])),
+      wordPairId: wordPair.id,
+      settings,
+      phaseDeadline: deadlineIn(settings.hintTimeSeconds),
+    };
+    await setGameState(gameState);
+
+    // ── Redis: update RoomState status field ──
+    const roomState = await getRoomState(roomId);
+    if (roomState) {
+      await setRoomState({ ...roomState, status: 'IN_PROGRESS' });
+    }
 
-  const roles = assignRoles(activePlayers.length);
+    return { success: true, wordPairId: wordPair.id };
+  }).catch((err) => orBusy(err, ROOM_BUSY));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Rematch — reopen a finished room with the same code, players and settings
+// ─────────────────────────────────────────────────────────────────────────────
 
-  // ── DB: update room status + assign roles + create first round (match history) ──
-  await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
-    await tx.room.update({ where: { id: roomId }, data: { status: 'IN_PROGRESS' } });
-    for (let i = 0; i < activePlayers.length; i++) {
-      await tx.player.update({ where: { id: activePlayers[i].id }, data: { role: roles[i] } });
+export async function rematchRoom(
+  roomId: string,
+  hostUserId: string,
+): Promise<{ success: boolean; message?: string; room?: RoomState }> {
+  return withGameLock(roomId, async () => {
+    const room = await prisma.room.findUnique({ where: { id: roomId } });
+    if (!room) return { success: false, message: 'Phòng không tồn tại.' };
+    if (room.hostId !== hostUserId) return { success: false, message: 'Chỉ chủ phòng mới có thể mở ván mới.' };
+    if (room.status !== 'FINISHED') return { success: false, message: 'Ván hiện tại chưa kết thúc.' };
+
+    if ((await getActiveRoomCount()) >= GAME_CONFIG.MAX_ACTIVE_ROOMS) {
+      return { success: false, message: 'Hệ thống đang có quá nhiều phòng. Vui lòng thử lại sau.' };
     }
-    await tx.round.create({
-      data: { roomId, roundNumber: 1, wordPairId: wordPair.id, phase: 'HINTING' },
+
+    // ── DB: back to the lobby — roles and eliminations belong to the finished Game, so
+    // everyone still in the room (voted out or not) plays the next one ──
+    await prisma.room.update({ where: { id: roomId }, data: { status: 'WAITING' } });
+
+    // ── Redis: drop leftovers of the old game and re-list the room ──
+    await deleteGameState(roomId);
+    await redis.del(ROOM_KEY(roomId));
+    const roomState = await getRoomState(roomId);
+    await setRoomCodeMapping(room.code, roomId);
+    await trackActiveRoom(roomId);
+
+    return { success: true, room: roomState ?? undefined };
+  }).catch((err) => orBusy(err, ROOM_BUSY));
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Host Moderation — kick, ban, hand over the room, close it to newcomers
+// ─────────────────────────────────────────────────────────────────────────────
+
+type ModerationResult = { success: boolean; message?: string; room?: RoomState };
+
+/** Remove a player from the lobby; a ban also stops them from rejoining */
+export async function kickPlayer(
+  roomId: string,
+  hostUserId: string,
+  targetPlayerId: string,
+  ban = false,
+): Promise<ModerationResult & { userId?: string }> {
+  return withGameLock(roomId, async () => {
+    const room = await prisma.room.findUnique({ where: { id: roomId } });
+    if (!room) return { success: false, message: 'Phòng không tồn tại.' };
+    if (room.hostId !== hostUserId) return { success: false, message: 'Chỉ chủ phòng mới có thể mời người chơi ra.' };
+    // Turn order and ballots are built around everyone dealt in, so nobody is removed mid-game
+    if (room.status === 'IN_PROGRESS') {
+      return { success: false, message: 'Không thể mời người chơi ra khi trò chơi đang diễn ra.' };
+    }
+
+    const target = await prisma.player.findUnique({ where: { id: targetPlayerId } });
+    if (!target || target.roomId !== roomId) return { success: false, message: 'Người chơi không ở trong phòng này.' };
+    if (target.userId === hostUserId) return { success: false, message: 'Bạn không thể tự mời mình ra.' };
+    if (!target.isActive && !ban) return { success: false, message: 'Người chơi đã rời phòng.' };
+
+    // ── DB: out of the room (and barred from it) ──
+    await prisma.player.update({
+      where: { id: target.id },
+      data: { isActive: false, ...(ban ? { isBanned: true } : {}) },
     });
-  });
 
-  // ── Redis: initialize GameState ──
-  const shuffledPlayers = [...activePlayers].sort(() => Math.random() - 0.5);
-  const gameState: GameState = {
-    roomId,
-    roundNumber: 1,
-    phase: 'HINTING',
-    turnOrder: shuffledPlayers.map((p) => p.id),
-    currentTurnIndex: 0,
-    clues: [],
-    votes: {},
-    eliminatedPlayers: [],
-    wordPairId: wordPair.id,
-  };
-  await setGameState(gameState);
+    // ── Redis: reflect in room state ──
+    const state = await getRoomState(roomId);
+    const player = state?.players.find((p) => p.id === target.id);
+    if (state && player) {
+      player.isActive = false;
+      if (ban) player.isBanned = true;
+      await setRoomState(state);
+    }
+
+    return { success: true, room: state ?? undefined, userId: target.userId };
+  }).catch((err) => orBusy(err, ROOM_BUSY));
+}
+
+export async function transferHost(roomId: string, hostUserId: string, targetPlayerId: string): Promise<ModerationResult> {
+  return withGameLock(roomId, async () => {
+    const room = await prisma.room.findUnique({ where: { id: roomId } });
+    if (!room) return { success: false, message: 'Phòng không tồn tại.' };
+    if (room.hostId !== hostUserId) return { success: false, message: 'Chỉ chủ phòng mới có thể chuyển quyền chủ phòng.' };
+
+    const target = await prisma.player.findUnique({ where: { id: targetPlayerId } });
+    if (!target || target.roomId !== roomId || !target.isActive) {
+      return { success: false, message: 'Người chơi không ở trong phòng này.' };
+    }
+    if (target.userId === hostUserId) return { success: false, message: 'Bạn đã là chủ phòng.' };
+
+    return { success: true, room: (await assignHost(roomId, target.userId)) ?? undefined };
+  }).catch((err) => orBusy(err, ROOM_BUSY));
+}
 
-  // ── Redis: update RoomState status field ──
-  const roomState = await getRoomState(roomId);
-  if (roomState) {
-    await setRoomState({ ...roomState, status: 'IN_PROGRESS' });
+export async function setRoomLocked(roomId: string, hostUserId: string, locked: boolean): Promise<ModerationResult> {
+  return withGameLock(roomId, async () => {
+    const room = await prisma.room.findUnique({ where: { id: roomId } });
+    if (!room) return { success: false, message: 'Phòng không tồn tại.' };
+    if (room.hostId !== hostUserId) return { success: false, message: 'Chỉ chủ phòng mới có thể khoá phòng.' };
+
+    await prisma.room.update({ where: { id: roomId }, data: { isLocked: locked } });
+
+    const state = await getRoomState(roomId);
+    if (state) {
+      state.isLocked = locked;
+      await setRoomState(state);
+    }
+    return { success: true, room: state ?? undefined };
+  }).catch((err) => orBusy(err, ROOM_BUSY));
+}
+
+/**
+ * The host dropped out of a running game: hand the room to the first player
+ * still connected. Returns the updated room state, or null if nobody could take over.
+ */
+export async function migrateHost(roomId: string): Promise<RoomState | null> {
+  return withGameLock(roomId, async () => {
+    const state = await getRoomState(roomId);
+    if (!state || state.status !== 'IN_PROGRESS') return null;
+
+    const host = state.players.find((p) => p.userId === state.hostId);
+    if (host?.isActive && (host.connection ?? 'ONLINE') === 'ONLINE') return null;
+
+    const next = state.players.find(
+      (p) => p.userId !== state.hostId && p.isActive && (p.connection ?? 'ONLINE') === 'ONLINE',
+    );
+    return next ? assignHost(roomId, next.userId) : null;
+  }).catch((err) => orBusy(err, null));
+}
+
+async function assignHost(roomId: string, userId: string): Promise<RoomState | null> {
+  await prisma.room.update({ where: { id: roomId }, data: { hostId: userId } });
+
+  const state = await getRoomState(roomId);
+  if (!state) return null;
+  state.hostId = userId;
+  state.players.forEach((p) => { p.isHost = p.userId === userId; });
+  await setRoomState(state);
+  return state;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Spectators — watch a room without a seat (Redis only, like connection flags)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function addSpectator(
+  roomId: string,
+  spectator: RoomSpectator,
+): Promise<{ success: boolean; message?: string; room?: RoomState }> {
+  const state = await getRoomState(roomId);
+  if (!state || state.status === 'FINISHED') return { success: false, message: 'Phòng không tồn tại.' };
+
+  const seat = state.players.find((p) => p.userId === spectator.userId);
+  if (seat?.isActive) return { success: false, message: 'Bạn đang là người chơi trong phòng này.' };
+  if (seat?.isBanned) return { success: false, message: 'Bạn đã bị chủ phòng cấm vào phòng này.' };
+  if (state.isLocked) return { success: false, message: 'Phòng đã bị khoá.' };
+
+  if (!state.spectators.some((s) => s.userId === spectator.userId)) {
+    if (state.spectators.length >= GAME_CONFIG.MAX_SPECTATORS) {
+      return { success: false, message: 'Phòng đã đủ người xem.' };
+    }
+    state.spectators.push(spectator);
+    await setRoomState(state);
   }
+  return { success: true, room: state };
+}
+
+/** Drop a user from the spectator list; returns the room state if they were on it */
+export async function removeSpectator(roomId: string, userId: string): Promise<RoomState | null> {
+  const state = await getRoomState(roomId);
+  if (!state?.spectators.some((s) => s.userId === userId)) return null;
+
+  state.spectators = state.spectators.filter((s) => s.userId !== userId);
+  await setRoomState(state);
+  return state;
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Ghost View — an eliminated player who can no longer affect the game may see
+// every role and both words
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function enterGhostView(
+  roomId: string,
+  playerId: string,
+): Promise<{ success: boolean; message?: string; ghost?: GhostView }> {
+  return withGameLock(roomId, async () => {
+    const state = await getGameState(roomId);
+    if (!state) return { success: false, message: 'Không có trò chơi đang diễn ra.' };
+
+    if (!state.eliminatedPlayers.includes(playerId)) {
+      return { success: false, message: 'Chỉ người đã bị loại mới có thể xem toàn bộ vai.' };
+    }
+    // Still holds a guess that can decide the game
+    if (state.guesserId === playerId) {
+      return { success: false, message: 'Hãy đoán từ trước khi xem toàn bộ vai.' };
+    }
 
-  return { success: true, wordPairId: wordPair.id };
+    if (!state.ghosts?.includes(playerId)) {
+      state.ghosts = [...(state.ghosts ?? []), playerId];
+      await setGameState(state);
+    }
+    return { success: true, ghost: (await buildGhostView(state)) ?? undefined };
+  }).catch((err) => orBusy(err, ROOM_BUSY));
+}
+
+export async function getGhostView(roomId: string): Promise<GhostView | null> {
+  const state = await getGameState(roomId);
+  return state ? buildGhostView(state) : null;
+}
+
+async function buildGhostView(state: GameState): Promise<GhostView | null> {
+  const wordPair = await prisma.wordPair.findUnique({ where: { id: state.wordPairId } });
+  if (!wordPair) return null;
+  return { roles: state.roles, wordA: wordPair.wordA, wordB: wordPair.wordB };
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -242,25 +578,113 @@ export async function submitClue(
   roomId: string,
   playerId: string,
   content: string,
-): Promise<{ success: boolean; message?: string; nextPlayerId?: string | null; votingStarted?: boolean }> {
-  const state = await getGameState(roomId);
-  if (!state) return { success: false, message: 'Trò chơi chưa bắt đầu.' };
-  if (state.phase !== 'HINTING') return { success: false, message: 'Không phải lúc để đưa ra gợi ý.' };
+): Promise<{
+  success: boolean;
+  message?: string;
+  reason?: ClueRejectionReason;
+  defence?: boolean;
+} & TurnOutcome> {
+  return withGameLock(roomId, async () => {
+    const state = await getGameState(roomId);
+    if (!state) return { success: false, message: 'Trò chơi chưa bắt đầu.' };
+    if (!isSpeakingPhase(state.phase)) return { success: false, message: 'Không phải lúc để đưa ra gợi ý.' };
+
+    if (currentSpeakerId(state) !== playerId) return { success: false, message: 'Chưa đến lượt của bạn.' };
+    const defence = state.phase === 'DEFENCE';
+
+    const round = await prisma.round.findFirst({ where: { gameId: state.gameId, roundNumber: state.roundNumber } });
+    if (!round) return { success: false, message: 'Vòng chơi không hợp lệ.' };
+
+    const player = await prisma.player.findUnique({ where: { id: playerId }, include: { user: true } });
+    if (!player) return { success: false, message: 'Người chơi không hợp lệ.' };
+
+    const wordPair = await prisma.wordPair.findUnique({ where: { id: state.wordPairId } });
+    if (!wordPair) return { success: false, message: 'Vòng chơi không hợp lệ.' };
+
+    const rejection = checkClue(content, {
+      secretWords: [wordPair.wordA, wordPair.wordB, ...wordPair.aliases],
+      previousClues: state.clues.filter((c) => !c.skipped).map((c) => c.content),
+      maxLength: state.settings.clueMaxLength,
+      maxWords: state.settings.clueMaxWords,
+    });
+    if (rejection) return { success: false, message: rejection.message, reason: rejection.reason };
+
+    // ── DB: persist clue for match history ──
+    await prisma.clue.create({ data: { roundId: round.id, playerId, content, isDefence: defence } });
+
+    // ── Redis: update game state ──
+    state.clues.push({
+      playerId,
+      displayName: player.user.displayName,
+      content,
+      ...(defence ? { defence: true } : {}),
+      createdAt: new Date(),
+    });
+
+    return { success: true, defence, ...(await advanceSpeaker(state, round.id)) };
+  }).catch((err) => orBusy(err, ROOM_BUSY));
+}
+
+/**
+ * Called when a hint deadline fires. Records a "no clue" entry for the player
+ * whose window lapsed and moves on, exactly as if they had submitted.
+ * Returns null when the deadline is stale (the turn already moved on).
+ */
+export async function skipExpiredTurn(
+  roomId: string,
+  deadline: number,
+): Promise<({ playerId: string; displayName: string; defence: boolean } & TurnOutcome) | null> {
+  return withGameLock(roomId, async () => {
+    const state = await getGameState(roomId);
+    if (!state || !isSpeakingPhase(state.phase) || state.phaseDeadline !== deadline) return null;
+
+    const playerId = currentSpeakerId(state);
+    if (!playerId) return null;
+    const defence = state.phase === 'DEFENCE';
+    const round = await prisma.round.findFirst({ where: { gameId: state.gameId, roundNumber: state.roundNumber } });
+    const player = await prisma.player.findUnique({ where: { id: playerId }, include: { user: true } });
+    if (!round || !player) return null;
+
+    // ── DB: record the lapsed turn so match history shows who stayed silent ──
+    await prisma.clue.create({ data: { roundId: round.id, playerId, content: '', isSkipped: true, isDefence: defence } });
+
+    state.clues.push({
+      playerId,
+      displayName: player.user.displayName,
+      content: '',
+      skipped: true,
+      ...(defence ? { defence: true } : {}),
+      createdAt: new Date(),
+    });
 
-  const expectedPlayerId = state.turnOrder[state.currentTurnIndex];
-  if (expectedPlayerId !== playerId) return { success: false, message: 'Chưa đến lượt của bạn.' };
+    return { playerId, displayName: player.user.displayName, defence, ...(await advanceSpeaker(state, round.id)) };
+  });
+}
 
-  const round = await prisma.round.findFirst({ where: { roomId, roundNumber: state.roundNumber } });
-  if (!round) return { success: false, message: 'Vòng chơi không hợp lệ.' };
+export interface TurnOutcome {
+  nextPlayerId?: string | null;
+  discussionStarted?: boolean; // Everyone has spoken and the room talks it over before voting
+  votingStarted?: boolean;
+  runoff?: boolean; // The voting that just opened is a tie-break revote
+}
 
-  const player = await prisma.player.findUnique({ where: { id: playerId }, include: { user: true } });
-  if (!player) return { success: false, message: 'Người chơi không hợp lệ.' };
+function isSpeakingPhase(phase: string): boolean {
+  return phase === 'HINTING' || phase === 'DEFENCE';
+}
 
-  // ── DB: persist clue for match history ──
-  await prisma.clue.create({ data: { roundId: round.id, playerId, content } });
+/** Whose turn it is to speak: the hint order, or the tied players during a defence */
+export function currentSpeakerId(state: GameState): string | null {
+  if (state.phase === 'DEFENCE') return state.runoff?.candidates[state.runoff.speakerIndex] ?? null;
+  if (state.phase === 'HINTING') return state.turnOrder[state.currentTurnIndex] ?? null;
+  return null;
+}
+
+function advanceSpeaker(state: GameState, roundId: string): Promise<TurnOutcome> {
+  return state.phase === 'DEFENCE' ? advanceDefence(state, roundId) : advanceTurn(state, roundId);
+}
 
-  // ── Redis: update game state ──
-  state.clues.push({ playerId, displayName: player.user.displayName, content, createdAt: new Date() });
+/** Move past the current speaker (and any eliminated players); after the last one, discussion or voting opens. */
+async function advanceTurn(state: GameState, roundId: string): Promise<TurnOutcome> {
   state.currentTurnIndex++;
 
   // Skip eliminated players
@@ -272,67 +696,186 @@ export async function submitClue(
   }
 
   if (state.currentTurnIndex >= state.turnOrder.length) {
-    state.phase = 'VOTING';
-    await prisma.round.update({ where: { id: round.id }, data: { phase: 'VOTING' } });
-    await setGameState(state);
-    return { success: true, votingStarted: true };
+    if (state.settings.discussionTimeSeconds > 0) {
+      state.phase = 'DISCUSSION';
+      state.phaseDeadline = deadlineIn(state.settings.discussionTimeSeconds);
+      await prisma.round.update({ where: { id: roundId }, data: { phase: 'DISCUSSION' } });
+      await setGameState(state);
+      return { discussionStarted: true };
+    }
+    await openVoting(state, roundId);
+    return { votingStarted: true };
   }
 
+  state.phaseDeadline = deadlineIn(state.settings.hintTimeSeconds);
+  await setGameState(state);
+  return { nextPlayerId: state.turnOrder[state.currentTurnIndex] };
+}
+
+/**
+ * Called when the discussion deadline fires: the talking stops and voting opens.
+ * Returns null when the deadline is stale.
+ */
+export async function closeDiscussion(roomId: string, deadline: number): Promise<TurnOutcome | null> {
+  return withGameLock(roomId, async () => {
+    const state = await getGameState(roomId);
+    if (!state || state.phase !== 'DISCUSSION' || state.phaseDeadline !== deadline) return null;
+
+    const round = await prisma.round.findFirst({ where: { gameId: state.gameId, roundNumber: state.roundNumber } });
+    if (!round) return null;
+
+    await openVoting(state, round.id);
+    return { votingStarted: true };
+  });
+}
+
+async function openVoting(state: GameState, roundId: string): Promise<void> {
+  state.phase = 'VOTING';
+  state.phaseDeadline = deadlineIn(state.settings.voteTimeSeconds);
+  await prisma.round.update({ where: { id: roundId }, data: { phase: 'VOTING' } });
+  await setGameState(state);
+}
+
+/** Next tied player's defence; opens the runoff vote after the last one. */
+async function advanceDefence(state: GameState, roundId: string): Promise<TurnOutcome> {
+  const runoff = state.runoff!;
+  runoff.speakerIndex++;
+
+  if (runoff.speakerIndex >= runoff.candidates.length) {
+    await openRunoffVote(state, roundId);
+    return { votingStarted: true, runoff: true };
+  }
+
+  state.phaseDeadline = deadlineIn(state.settings.hintTimeSeconds);
+  await setGameState(state);
+  return { nextPlayerId: runoff.candidates[runoff.speakerIndex] };
+}
+
+/** Reopen voting for the tie-break; ballots from the tied vote are cleared. */
+async function openRunoffVote(state: GameState, roundId: string): Promise<void> {
+  state.phase = 'VOTING';
+  state.votes = {};
+  state.phaseDeadline = deadlineIn(state.settings.voteTimeSeconds);
+  await prisma.round.update({ where: { id: roundId }, data: { phase: 'VOTING' } });
   await setGameState(state);
-  return { success: true, nextPlayerId: state.turnOrder[state.currentTurnIndex] };
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Voting
 // ─────────────────────────────────────────────────────────────────────────────
 
+/**
+ * Cast, change or withdraw (`targetId` null = abstain) a ballot. Players may
+ * change their vote until everyone has voted or the deadline closes voting.
+ */
 export async function submitVote(
   roomId: string,
   voterId: string,
-  targetId: string,
-): Promise<{ success: boolean; message?: string; allVoted?: boolean }> {
-  const state = await getGameState(roomId);
-  if (!state) return { success: false, message: 'Trò chơi chưa bắt đầu.' };
-  if (state.phase !== 'VOTING') return { success: false, message: 'Không phải lúc bỏ phiếu.' };
-  if (state.eliminatedPlayers.includes(voterId))
-    return { success: false, message: 'Bạn đã bị loại, không thể bỏ phiếu.' };
-  if (state.votes[voterId]) return { success: false, message: 'Bạn đã bỏ phiếu rồi.' };
+  targetId: string | null,
+): Promise<{
+  success: boolean;
+  message?: string;
+  allVoted?: boolean;
+  voteCount?: number;
+  changed?: boolean;
+  ballotMode?: BallotMode;
+}> {
+  return withGameLock(roomId, async () => {
+    const state = await getGameState(roomId);
+    if (!state) return { success: false, message: 'Trò chơi chưa bắt đầu.' };
+    if (state.phase !== 'VOTING') return { success: false, message: 'Không phải lúc bỏ phiếu.' };
+
+    const alivePlayers = state.turnOrder.filter((id) => !state.eliminatedPlayers.includes(id));
+    if (!alivePlayers.includes(voterId)) return { success: false, message: 'Bạn đã bị loại, không thể bỏ phiếu.' };
+
+    if (targetId !== null) {
+      if (targetId === voterId) return { success: false, message: 'Bạn không thể bỏ phiếu cho chính mình.' };
+      if (!alivePlayers.includes(targetId)) return { success: false, message: 'Người chơi được chọn không hợp lệ.' };
+      if (state.runoff && !state.runoff.candidates.includes(targetId)) {
+        return { success: false, message: 'Vòng bỏ phiếu lại chỉ được chọn người chơi đang hoà phiếu.' };
+      }
+    }
+
+    const changed = voterId in state.votes;
+    if (changed && state.votes[voterId] === targetId) return { success: false, message: 'Bạn đã bỏ phiếu này rồi.' };
 
-  const round = await prisma.round.findFirst({ where: { roomId, roundNumber: state.roundNumber } });
-  if (!round) return { success: false, message: 'Vòng chơi không hợp lệ.' };
+    const round = await prisma.round.findFirst({ where: { gameId: state.gameId, roundNumber: state.roundNumber } });
+    if (!round) return { success: false, message: 'Vòng chơi không hợp lệ.' };
 
-  // ── DB: persist vote for match history ──
-  await prisma.vote.create({ data: { roundId: round.id, voterId, targetId } });
+    // ── DB: persist vote for match history (a changed vote overwrites the earlier one) ──
+    const isRunoff = !!state.runoff;
+    await prisma.vote.upsert({
+      where: { roundId_voterId_isRunoff: { roundId: round.id, voterId, isRunoff } },
+      create: { roundId: round.id, voterId, targetId, isRunoff },
+      update: { targetId },
+    });
 
-  // ── Redis: update votes map ──
-  state.votes[voterId] = targetId;
+    // ── Redis: update votes map ──
+    state.votes[voterId] = targetId;
 
-  const activePlayers = state.turnOrder.filter((id) => !state.eliminatedPlayers.includes(id));
-  const allVoted = activePlayers.every((id) => state.votes[id]);
+    const allVoted = alivePlayers.every((id) => id in state.votes);
 
-  await setGameState(state);
-  return { success: true, allVoted };
+    await setGameState(state);
+    return {
+      success: true,
+      allVoted,
+      voteCount: Object.keys(state.votes).length,
+      changed,
+      ballotMode: state.settings.ballotMode,
+    };
+  }).catch((err) => orBusy(err, ROOM_BUSY));
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // Tally Votes and Resolve Round
 // ─────────────────────────────────────────────────────────────────────────────
 
-export interface RoundResolution {
+export interface RoundResolution extends WinFields {
   eliminatedPlayerId: string | null;
   eliminatedRole?: PlayerRole | null;
-  isWhiteHat: boolean;
+  isWhiteHat: boolean; // Eliminated player gets a guess (see RoleDefinition.guessesOnElimination)
   gameOver: boolean;
-  winner?: 'CIVILIAN' | 'BLACK_HAT' | 'WHITE_HAT';
+  randomTieBreak?: boolean; // Eliminated by lot among the tied players
+  runoff?: { candidates: string[]; phase: 'DEFENCE' | 'VOTING' }; // Tie → decided by a revote instead
+  ballots: Record<string, string | null>; // The votes that were tallied, voterId -> targetId
 }
 
-export async function resolveVotes(roomId: string): Promise<RoundResolution> {
-  const state = await getGameState(roomId);
-  if (!state) throw new Error('Game state not found');
+/**
+ * Tally the ballots and move the game on. Returns null if voting is already
+ * closed or the game is gone, so the last ballot and the vote deadline can't
+ * both resolve a round.
+ * Also null if the room stays locked too long — the vote deadline then resolves it.
+ */
+export async function resolveVotes(roomId: string): Promise<RoundResolution | null> {
+  return withGameLock(roomId, async () => {
+    const state = await getGameState(roomId);
+    if (!state || state.phase !== 'VOTING') return null;
+    return tallyVotes(roomId, state);
+  }).catch((err) => orBusy(err, null));
+}
+
+/** Called when the vote deadline fires: resolve with whatever ballots exist. */
+export async function closeVoting(roomId: string, deadline: number): Promise<RoundResolution | null> {
+  return withGameLock(roomId, async () => {
+    const state = await getGameState(roomId);
+    if (!state || state.phase !== 'VOTING' || state.phaseDeadline !== deadline) return null;
+    return tallyVotes(roomId, state);
+  });
+}
+
+/** Caller must hold the room lock and have checked the phase is VOTING */
+async function tallyVotes(roomId: string, state: GameState): Promise<RoundResolution> {
+  // Copied before the round moves on and clears them — revealed with the outcome
+  const ballots = { ...state.votes };
+  return { ...(await decideVotes(roomId, state)), ballots };
+}
 
+type VoteDecision = Omit<RoundResolution, 'ballots'>;
+
+async function decideVotes(roomId: string, state: GameState): Promise<VoteDecision> {
   const voteCounts: Record<string, number> = {};
   for (const targetId of Object.values(state.votes)) {
-    voteCounts[targetId] = (voteCounts[targetId] || 0) + 1;
+    if (targetId) voteCounts[targetId] = (voteCounts[targetId] || 0) + 1;
   }
 
   const maxVotes = Math.max(0, ...Object.values(voteCounts));
@@ -340,97 +883,199 @@ export async function resolveVotes(roomId: string): Promise<RoundResolution> {
     .filter(([, count]) => count === maxVotes)
     .map(([id]) => id);
 
+  // Nobody voted (or everyone abstained) before the deadline → no elimination
+  if (maxVotes === 0) return continueWithoutElimination(roomId, state);
+
+  let eliminatedPlayerId = topTargets[0];
+  let randomTieBreak = false;
+
   if (topTargets.length > 1) {
-    await startNextRound(roomId, state);
-    return { eliminatedPlayerId: null, isWhiteHat: false, gameOver: false };
+    // A runoff that ties again is not decided a second time
+    const rule = state.runoff ? 'SKIP' : state.settings.tieRule;
+    if (rule === 'RUNOFF' || rule === 'DEFENCE') {
+      return startRunoff(state, topTargets, rule === 'DEFENCE' ? 'DEFENCE' : 'VOTING');
+    }
+    if (rule === 'SKIP') return continueWithoutElimination(roomId, state);
+    eliminatedPlayerId = topTargets[Math.floor(Math.random() * topTargets.length)];
+    randomTieBreak = true;
   }
 
-  const eliminatedPlayerId = topTargets[0];
-  const eliminatedPlayer = await prisma.player.findUnique({ where: { id: eliminatedPlayerId } });
-  if (!eliminatedPlayer) throw new Error('Eliminated player not found');
+  state.runoff = null;
+  const eliminatedRole = state.roles[eliminatedPlayerId];
+  if (!eliminatedRole) throw new Error('Eliminated player not found');
 
-  // ── DB: mark player eliminated ──
-  await prisma.player.update({ where: { id: eliminatedPlayerId }, data: { isActive: false } });
+  // ── DB: mark player eliminated in this game ──
+  await prisma.gameParticipant.update({
+    where: { gameId_playerId: { gameId: state.gameId, playerId: eliminatedPlayerId } },
+    data: { eliminatedRound: state.roundNumber },
+  });
 
   // ── Redis: update eliminated list ──
   state.eliminatedPlayers.push(eliminatedPlayerId);
 
-  const isWhiteHat = eliminatedPlayer.role === PlayerRole.WHITE_HAT;
+  const isWhiteHat = !!getRoleDefinition(eliminatedRole).guessesOnElimination;
 
   if (isWhiteHat) {
     state.phase = 'GUESSING';
-    const round = await prisma.round.findFirst({ where: { roomId, roundNumber: state.roundNumber } });
+    state.guesserId = eliminatedPlayerId;
+    // A guesser who never answers must not hold the game up — the deadline counts as a wrong guess
+    state.phaseDeadline = deadlineIn(GAME_CONFIG.GUESS_TIME_SECONDS);
+    const round = await prisma.round.findFirst({ where: { gameId: state.gameId, roundNumber: state.roundNumber } });
     if (round) {
       await prisma.round.update({ where: { id: round.id }, data: { phase: 'GUESSING' } });
     }
     await setGameState(state);
-    return { eliminatedPlayerId, eliminatedRole: eliminatedPlayer.role, isWhiteHat: true, gameOver: false };
+    return { eliminatedPlayerId, eliminatedRole, isWhiteHat: true, gameOver: false };
+  }
+
+  const win = await checkWin(roomId, state);
+  if (win) {
+    await endGame(roomId, state, win);
+    return { eliminatedPlayerId, eliminatedRole, isWhiteHat: false, gameOver: true, ...winFields(win) };
   }
 
-  const winResult = await checkWinConditions(roomId, state);
-  if (winResult.gameOver) {
-    await endGame(roomId, state, winResult.winner!);
-    return { eliminatedPlayerId, eliminatedRole: eliminatedPlayer.role, isWhiteHat: false, ...winResult };
+  await startNextRound(roomId, state);
+  return { eliminatedPlayerId, eliminatedRole, isWhiteHat: false, gameOver: false };
+}
+
+/** Nobody was voted out — but players who left since may still have decided the game */
+async function continueWithoutElimination(roomId: string, state: GameState): Promise<VoteDecision> {
+  const win = await checkWin(roomId, state);
+  if (win) {
+    await endGame(roomId, state, win);
+    return { eliminatedPlayerId: null, isWhiteHat: false, gameOver: true, ...winFields(win) };
   }
 
   await startNextRound(roomId, state);
-  return { eliminatedPlayerId, eliminatedRole: eliminatedPlayer.role, isWhiteHat: false, gameOver: false };
+  return { eliminatedPlayerId: null, isWhiteHat: false, gameOver: false };
+}
+
+/** Tie → the tied players defend themselves first (DEFENCE) or go straight to a revote. */
+async function startRunoff(
+  state: GameState,
+  candidates: string[],
+  phase: 'DEFENCE' | 'VOTING',
+): Promise<VoteDecision> {
+  const round = await prisma.round.findFirst({ where: { gameId: state.gameId, roundNumber: state.roundNumber } });
+  if (!round) throw new Error('Round not found');
+
+  state.runoff = { candidates, speakerIndex: 0 };
+  if (phase === 'VOTING') {
+    await openRunoffVote(state, round.id);
+  } else {
+    state.phase = 'DEFENCE';
+    state.phaseDeadline = deadlineIn(state.settings.hintTimeSeconds);
+    await prisma.round.update({ where: { id: round.id }, data: { phase: 'DEFENCE' } });
+    await setGameState(state);
+  }
+
+  return { eliminatedPlayerId: null, isWhiteHat: false, gameOver: false, runoff: { candidates, phase } };
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
 // White Hat Guessing Phase
 // ─────────────────────────────────────────────────────────────────────────────
 
+export interface WhiteHatGuessResult extends WinFields {
+  success: boolean;
+  message?: string;
+  correct: boolean;
+  matchType?: GuessMatchType | null;
+  correctWord?: string;
+  gameOver?: boolean;
+}
+
 export async function submitWhiteHatGuess(
   roomId: string,
   whiteHatPlayerId: string,
   guess: string,
-): Promise<{ success: boolean; correct: boolean; correctWord?: string; gameOver?: boolean; winner?: 'CIVILIAN' | 'BLACK_HAT' | 'WHITE_HAT' }> {
-  const state = await getGameState(roomId);
-  if (!state || state.phase !== 'GUESSING') return { success: false, correct: false };
+): Promise<WhiteHatGuessResult> {
+  return withGameLock(roomId, async (): Promise<WhiteHatGuessResult> => {
+    const state = await getGameState(roomId);
+    if (!state || state.phase !== 'GUESSING') return { success: false, correct: false };
+    if (state.guesserId && state.guesserId !== whiteHatPlayerId) {
+      return { success: false, correct: false, message: 'Chỉ người chơi vừa bị loại mới được đoán.' };
+    }
+    return resolveGuess(roomId, state, whiteHatPlayerId, guess);
+  }).catch((err) => orBusy(err, { ...ROOM_BUSY, correct: false }));
+}
 
+/**
+ * Called when the guess deadline fires: the guesser ran out of time, which counts
+ * as a wrong guess. Returns null if the guess was already made.
+ */
+export async function expireGuess(
+  roomId: string,
+  deadline: number,
+): Promise<(WhiteHatGuessResult & { guesserId: string }) | null> {
+  return withGameLock(roomId, async () => {
+    const state = await getGameState(roomId);
+    if (!state || state.phase !== 'GUESSING' || state.phaseDeadline !== deadline || !state.guesserId) return null;
+    const guesserId = state.guesserId;
+    return { ...(await resolveGuess(roomId, state, guesserId, null)), guesserId };
+  });
+}
+
+/** Caller must hold the room lock and have checked the phase is GUESSING; null = timed out */
+async function resolveGuess(
+  roomId: string,
+  state: GameState,
+  whiteHatPlayerId: string,
+  guess: string | null,
+): Promise<WhiteHatGuessResult> {
   const wordPair = await prisma.wordPair.findUnique({ where: { id: state.wordPairId } });
   if (!wordPair) return { success: false, correct: false };
 
-  const correct = guess.trim().toLowerCase() === wordPair.wordA.trim().toLowerCase();
+  const matchType =
+    guess === null
+      ? null
+      : matchGuess(guess, wordPair.wordA, {
+          aliases: wordPair.aliases,
+          toneInsensitive: state.settings.guessToneInsensitive,
+        });
+  const correct = matchType !== null;
+
+  // ── DB: record the guess outcome for match history ──
+  await prisma.gameParticipant.update({
+    where: { gameId_playerId: { gameId: state.gameId, playerId: whiteHatPlayerId } },
+    data: { guessedCorrectly: correct },
+  });
 
-  if (correct) {
-    await endGame(roomId, state, 'WHITE_HAT');
-    return { success: true, correct: true, gameOver: true, winner: 'WHITE_HAT' };
+  const win = correct
+    ? guessWin(state.roles[whiteHatPlayerId] ?? PlayerRole.WHITE_HAT, wordPair.wordA)
+    : await checkWin(roomId, state);
+  if (win) {
+    await endGame(roomId, state, win, whiteHatPlayerId);
+    return { success: true, correct, matchType, correctWord: wordPair.wordA, gameOver: true, ...winFields(win) };
   }
 
-  const winResult = await checkWinConditions(roomId, state);
-  if (winResult.gameOver) {
-    await endGame(roomId, state, winResult.winner!);
-    return { success: true, correct: false, correctWord: wordPair.wordA, gameOver: true, winner: winResult.winner };
-  }
+  // With a fixed pair the civilians keep playing this word, so it is only revealed
+  // when the pair is about to be replaced anyway
+  const revealWord = state.settings.wordMode === 'PER_ROUND';
 
   await startNextRound(roomId, state);
-  return { success: true, correct: false, correctWord: wordPair.wordA, gameOver: false };
+  return { success: true, correct: false, matchType, correctWord: revealWord ? wordPair.wordA : undefined, gameOver: false };
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
-// Win Condition Check
+// Game Outcome — fields added to a resolution or guess result once someone has won
 // ─────────────────────────────────────────────────────────────────────────────
 
-export async function checkWinConditions(
-  roomId: string,
-  state?: GameState,
-): Promise<{ gameOver: boolean; winner?: 'CIVILIAN' | 'BLACK_HAT' | 'WHITE_HAT' }> {
-  const gs = state ?? (await getGameState(roomId));
-  if (!gs) return { gameOver: false };
-
-  const activePlayers = await prisma.player.findMany({ where: { roomId, isActive: true } });
-
-  const hasBlackHat = activePlayers.some((p) => p.role === PlayerRole.BLACK_HAT);
-  const hasWhiteHat = activePlayers.some((p) => p.role === PlayerRole.WHITE_HAT);
-  const activeCount = activePlayers.length;
+export interface WinFields {
+  winner?: PlayerRole;
+  winReason?: WinReason;
+  winExplanation?: string;
+}
 
-  if (activeCount <= 2 && hasBlackHat) return { gameOver: true, winner: 'BLACK_HAT' };
-  if (!hasBlackHat) return { gameOver: true, winner: 'CIVILIAN' };
-  if (!hasBlackHat && !hasWhiteHat) return { gameOver: true, winner: 'CIVILIAN' };
+function winFields(win: WinResult): WinFields {
+  return { winner: win.winner, winReason: win.reason, winExplanation: win.explanation };
+}
 
-  return { gameOver: false };
+/** evaluateWin, with players who left the room mid-game counted as out */
+async function checkWin(roomId: string, state: GameState): Promise<WinResult | null> {
+  const room = await getRoomState(roomId);
+  const departed = room?.players.filter((p) => !p.isActive).map((p) => p.id) ?? [];
+  return evaluateWin(state, departed);
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
@@ -438,26 +1083,34 @@ export async function checkWinConditions(
 // ─────────────────────────────────────────────────────────────────────────────
 
 async function startNextRound(roomId: string, state: GameState) {
-  const wordPair = await getRandomWordPair();
-  if (!wordPair) return;
+  // Still in the room and not voted out
+  const activePlayers = await prisma.player.findMany({
+    where: { roomId, isActive: true, id: { in: Object.keys(state.roles), notIn: state.eliminatedPlayers } },
+    orderBy: { joinedAt: 'asc' },
+  });
+
+  // Classic rules keep the pair for the whole game; PER_ROUND draws a fresh one
+  if (state.settings.wordMode === 'PER_ROUND') {
+    const wordPair = await getRandomWordPair(state.settings.categoryIds, activePlayers.map((p) => p.userId));
+    // Pool emptied mid-game (pairs deactivated): play on with the current pair rather than stall
+    if (wordPair) state.wordPairId = wordPair.id;
+    else console.log(`[Game] No word pair to draw for room ${roomId}, keeping the current one`);
+  }
 
   state.roundNumber++;
   state.phase = 'HINTING';
   state.clues = [];
   state.votes = {};
-  state.wordPairId = wordPair.id;
-
-  const activePlayers = await prisma.player.findMany({
-    where: { roomId, isActive: true },
-    orderBy: { joinedAt: 'asc' },
-  });
+  state.runoff = null;
+  state.guesserId = null;
 
   state.turnOrder = activePlayers.sort(() => Math.random() - 0.5).map((p) => p.id);
   state.currentTurnIndex = 0;
+  state.phaseDeadline = deadlineIn(state.settings.hintTimeSeconds);
 
   // ── DB: record new round for match history ──
   await prisma.round.create({
-    data: { roomId, roundNumber: state.roundNumber, wordPairId: wordPair.id, phase: 'HINTING' },
+    data: { gameId: state.gameId, roundNumber: state.roundNumber, wordPairId: state.wordPairId, phase: 'HINTING' },
   });
 
   await setGameState(state);
@@ -467,13 +1120,39 @@ async function startNextRound(roomId: string, state: GameState) {
 // End Game — finalize in DB, clean up Redis
 // ─────────────────────────────────────────────────────────────────────────────
 
-async function endGame(roomId: string, state: GameState, _winner: string) {
+/** `guesserId` is the eliminated player whose guess ended the game, if it ended that way */
+async function endGame(roomId: string, state: GameState, win: WinResult, guesserId?: string) {
+  const { winner } = win;
+  const endedAt = new Date();
+
   // ── DB: finalize match history ──
   await prisma.room.update({ where: { id: roomId }, data: { status: 'FINISHED' } });
 
-  const round = await prisma.round.findFirst({ where: { roomId }, orderBy: { roundNumber: 'desc' } });
+  const round = await prisma.round.findFirst({ where: { gameId: state.gameId }, orderBy: { roundNumber: 'desc' } });
   if (round) {
-    await prisma.round.update({ where: { id: round.id }, data: { phase: 'RESULT', endedAt: new Date() } });
+    await prisma.round.update({ where: { id: round.id }, data: { phase: 'RESULT', endedAt } });
+  }
+
+  const game = await prisma.game.findUnique({ where: { id: state.gameId }, include: { participants: true } });
+  if (game) {
+    await prisma.$transaction([
+      prisma.game.update({
+        where: { id: game.id },
+        data: {
+          status: 'FINISHED',
+          winner,
+          wordPairId: state.wordPairId,
+          endedAt,
+          durationSeconds: Math.round((endedAt.getTime() - game.startedAt.getTime()) / 1000),
+        },
+      }),
+      prisma.gameParticipant.updateMany({
+        where: { gameId: game.id, ...winningSeats(win, guesserId) },
+        data: { won: true },
+      }),
+    ]);
+    await applyGameRatings(game.id);
+    await invalidateStats(game.participants.map((p) => p.userId));
   }
 
   // ── Redis: clean up active room data ──
@@ -481,17 +1160,52 @@ async function endGame(roomId: string, state: GameState, _winner: string) {
   await deleteRoomState(roomId);
 }
 
+/**
+ * Who shares in the win: a guessed word is the guesser's alone, otherwise the
+ * whole team of the credited role wins (Black and White Hats alike for impostors).
+ */
+function winningSeats(win: WinResult, guesserId?: string): Prisma.GameParticipantWhereInput {
+  if (win.reason === 'WORD_GUESSED' && guesserId) return { playerId: guesserId };
+  const team = getRoleDefinition(win.winner).team;
+  return { role: { in: listRoles().filter((role) => getRoleDefinition(role).team === team) } };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Restart hooks — used by recoveryService at boot and by graceful shutdown
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Write a GameState rebuilt from the DB, unless another node restored one first. */
+export async function restoreGameState(state: GameState): Promise<boolean> {
+  return withGameLock(state.roomId, async () => {
+    if (await redis.exists(GAME_KEY(state.roomId))) return false;
+    await setGameState(state);
+    await trackActiveRoom(state.roomId);
+    return true;
+  });
+}
+
+/** Drop Redis state for a game the DB no longer considers running. */
+export async function discardGameState(roomId: string): Promise<void> {
+  await withGameLock(roomId, async () => {
+    await deleteGameState(roomId);
+    await deleteRoomState(roomId);
+  });
+}
+
+/** Wait for any in-flight update of the room to finish writing. */
+export async function drainGameState(roomId: string): Promise<void> {
+  await withGameLock(roomId, async () => undefined);
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
-// Get Word for Player Role (unchanged)
+// Get Word for Player Role
 // ─────────────────────────────────────────────────────────────────────────────
 
 export async function getWordForPlayer(wordPairId: string, role: PlayerRole): Promise<string | null> {
   const wordPair = await prisma.wordPair.findUnique({ where: { id: wordPairId } });
   if (!wordPair) return null;
 
-  if (role === PlayerRole.CIVILIAN) return wordPair.wordA;
-  if (role === PlayerRole.BLACK_HAT) return wordPair.wordB;
-  return null; // WHITE_HAT gets no word
+  return wordForRole(role, wordPair);
 }
 
 // ─────────────────────────────────────────────────────────────────────────────
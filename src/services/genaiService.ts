@@ -1,5 +1,7 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
+import { Prisma, WordPair } from '@prisma/client';
 import { prisma } from '../lib/prisma';
+import { GAME_CONFIG } from '../constants';
 
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
 
@@ -49,24 +51,58 @@ Hãy tạo một cặp từ liên quan trong danh mục: "${categoryName}".
 }
 
 /**
- * Pick a random active word pair from the database.
+ * Pick a random active word pair, optionally restricted to a set of categories
+ * (empty or omitted = any category).
+ *
+ * Pairs that any of `userIds` played within the repeat window are pushed to the
+ * back: fresh pairs come first, and once the pool is exhausted the least
+ * recently played pair is reused instead of failing. Done in one query.
  */
-export async function getRandomWordPair(categoryId?: string) {
-  const where = categoryId
-    ? { isActive: true, categoryId }
-    : { isActive: true };
-
-  const count = await prisma.wordPair.count({ where });
-  if (count === 0) return null;
-
-  const skip = Math.floor(Math.random() * count);
-  const pair = await prisma.wordPair.findFirst({
-    where,
-    skip,
-    include: { category: true },
-  });
+export async function getRandomWordPair(categoryIds: string[] = [], userIds: string[] = []): Promise<WordPair | null> {
+  const since = new Date(Date.now() - GAME_CONFIG.WORD_REPEAT_WINDOW_DAYS * 24 * 3600 * 1000);
+
+  const categoryFilter = categoryIds.length
+    ? Prisma.sql`AND wp."categoryId" IN (${Prisma.join(categoryIds)})`
+    : Prisma.empty;
+
+  // Last time any of the given users played each pair within the window
+  const recentJoin = userIds.length
+    ? Prisma.sql`
+        LEFT JOIN (
+          SELECT r."wordPairId", MAX(r."createdAt") AS "lastPlayedAt"
+          FROM "Round" r
+          JOIN "Game" g ON r."gameId" = g.id
+          JOIN "GameParticipant" gp ON gp."gameId" = g.id
+          WHERE gp."userId" IN (${Prisma.join(userIds)}) AND r."createdAt" >= ${since}
+          GROUP BY r."wordPairId"
+        ) recent ON recent."wordPairId" = wp.id`
+    : Prisma.empty;
+  const order = userIds.length
+    ? Prisma.sql`recent."lastPlayedAt" ASC NULLS FIRST, random()`
+    : Prisma.sql`random()`;
+
+  const rows = await prisma.$queryRaw<WordPair[]>`
+    SELECT wp.*
+    FROM "WordPair" wp
+    ${recentJoin}
+    WHERE wp."isActive" = true ${categoryFilter}
+    ORDER BY ${order}
+    LIMIT 1`;
 
-  return pair;
+  return rows[0] ?? null;
+}
+
+/**
+ * Names of the given categories that have no active word pair —
+ * used to explain why no pair could be drawn.
+ */
+export async function findEmptyCategories(categoryIds: string[]): Promise<string[]> {
+  const categories = await prisma.wordCategory.findMany({
+    where: { id: { in: categoryIds } },
+    include: { _count: { select: { wordPairs: { where: { isActive: true } } } } },
+    orderBy: { name: 'asc' },
+  });
+  return categories.filter((c) => c._count.wordPairs === 0).map((c) => c.name);
 }
 
 /**
@@ -0,0 +1,113 @@
+import { prisma } from '../lib/prisma';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Match History — read side over the Game / Round / Clue / Vote rows
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** One finished game from a single user's point of view */
+export async function listUserMatches(userId: string, page: number, limit: number) {
+  const where = { status: 'FINISHED' as const, participants: { some: { userId } } };
+
+  const [games, total] = await Promise.all([
+    prisma.game.findMany({
+      where,
+      include: {
+        room: { select: { code: true } },
+        wordPair: { select: { wordA: true, wordB: true } },
+        participants: { where: { userId } },
+      },
+      orderBy: { endedAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+    prisma.game.count({ where }),
+  ]);
+
+  const matches = games.map((g) => {
+    const me = g.participants[0];
+    return {
+      id: g.id,
+      roomCode: g.room.code,
+      winner: g.winner,
+      startedAt: g.startedAt,
+      endedAt: g.endedAt,
+      durationSeconds: g.durationSeconds,
+      wordPair: g.wordPair,
+      role: me?.role ?? null,
+      won: me?.won ?? false,
+      eliminatedRound: me?.eliminatedRound ?? null,
+    };
+  });
+
+  return { matches, total };
+}
+
+/**
+ * Full round-by-round timeline of a finished game: clues, votes and who was
+ * eliminated in each round. Games still in progress are not exposed — the
+ * timeline reveals roles and words.
+ */
+export async function getMatchTimeline(gameId: string) {
+  const game = await prisma.game.findUnique({
+    where: { id: gameId },
+    include: {
+      room: { select: { code: true } },
+      wordPair: { include: { category: true } },
+      participants: { include: { user: { select: { displayName: true, avatar: true } } } },
+      rounds: {
+        orderBy: { roundNumber: 'asc' },
+        include: {
+          wordPair: { select: { wordA: true, wordB: true } },
+          clues: { orderBy: { createdAt: 'asc' } },
+          votes: { orderBy: { createdAt: 'asc' } },
+        },
+      },
+    },
+  });
+  if (!game || game.status !== 'FINISHED') return null;
+
+  const names = new Map(game.participants.map((p) => [p.playerId, p.user.displayName]));
+
+  return {
+    id: game.id,
+    roomId: game.roomId,
+    roomCode: game.room.code,
+    winner: game.winner,
+    startedAt: game.startedAt,
+    endedAt: game.endedAt,
+    durationSeconds: game.durationSeconds,
+    wordPair: {
+      wordA: game.wordPair.wordA,
+      wordB: game.wordPair.wordB,
+      category: game.wordPair.category.name,
+    },
+    participants: game.participants.map((p) => ({
+      playerId: p.playerId,
+      userId: p.userId,
+      displayName: p.user.displayName,
+      avatar: p.user.avatar,
+      role: p.role,
+      eliminatedRound: p.eliminatedRound,
+      guessedCorrectly: p.guessedCorrectly,
+      won: p.won,
+    })),
+    rounds: game.rounds.map((r) => ({
+      roundNumber: r.roundNumber,
+      wordPair: r.wordPair,
+      startedAt: r.createdAt,
+      endedAt: r.endedAt,
+      clues: r.clues.map((c) => ({
+        playerId: c.playerId,
+        displayName: names.get(c.playerId) ?? null,
+        content: c.content,
+        skipped: c.isSkipped,
+        defence: c.isDefence,
+        createdAt: c.createdAt,
+      })),
+      votes: r.votes.map((v) => ({ voterId: v.voterId, targetId: v.targetId, runoff: v.isRunoff })),
+      eliminatedPlayerIds: game.participants
+        .filter((p) => p.eliminatedRound === r.roundNumber)
+        .map((p) => p.playerId),
+    })),
+  };
+}
@@ -0,0 +1,120 @@
+import { PlayerRole } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { RATING_CONFIG } from '../constants';
+import { getRoleDefinition } from './roles';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Skill Rating — team Elo, one rating per user per role
+//
+// The civilian team plays against the impostors (both hats). Each side is rated by the
+// average of its members' role ratings; every player's expected score is their
+// side's rating (shifted by their role's advantage) against the other side's.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface RatedSeat {
+  userId: string;
+  role: PlayerRole;
+  won: boolean;
+  rating: number;
+  gamesPlayed: number; // Games already rated in this role
+}
+
+export interface RatingChange {
+  userId: string;
+  role: PlayerRole;
+  before: number;
+  after: number;
+}
+
+function average(values: number[]): number {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/** Pure Elo update for one finished game. Returns an empty list if a side is missing. */
+export function computeRatingChanges(seats: RatedSeat[]): RatingChange[] {
+  const civilians = seats.filter((s) => getRoleDefinition(s.role).team === 'CIVILIAN');
+  const impostors = seats.filter((s) => getRoleDefinition(s.role).team === 'IMPOSTOR');
+  if (!civilians.length || !impostors.length) return [];
+
+  const sideRating = {
+    CIVILIAN: average(civilians.map((s) => s.rating)),
+    IMPOSTOR: average(impostors.map((s) => s.rating)),
+  };
+
+  return seats.map((seat) => {
+    const { team, ratingAdvantage } = getRoleDefinition(seat.role);
+    const opponent = team === 'CIVILIAN' ? 'IMPOSTOR' : 'CIVILIAN';
+    const effective = sideRating[team] + ratingAdvantage;
+    const expected = 1 / (1 + 10 ** ((sideRating[opponent] - effective) / 400));
+
+    const k =
+      seat.gamesPlayed < RATING_CONFIG.PROVISIONAL_GAMES
+        ? RATING_CONFIG.PROVISIONAL_K_FACTOR
+        : RATING_CONFIG.K_FACTOR;
+    const after = seat.rating + k * ((seat.won ? 1 : 0) - expected);
+
+    return { userId: seat.userId, role: seat.role, before: seat.rating, after: Math.round(after * 10) / 10 };
+  });
+}
+
+/** Rate every participant of a finished game and record the change in their history */
+export async function applyGameRatings(gameId: string): Promise<RatingChange[]> {
+  const participants = await prisma.gameParticipant.findMany({ where: { gameId } });
+  if (!participants.length) return [];
+
+  const existing = await prisma.rating.findMany({
+    where: { OR: participants.map((p) => ({ userId: p.userId, role: p.role })) },
+  });
+  const ratingOf = new Map(existing.map((r) => [`${r.userId}:${r.role}`, r]));
+
+  const changes = computeRatingChanges(
+    participants.map((p) => {
+      const current = ratingOf.get(`${p.userId}:${p.role}`);
+      return {
+        userId: p.userId,
+        role: p.role,
+        won: p.won,
+        rating: current?.rating ?? RATING_CONFIG.INITIAL_RATING,
+        gamesPlayed: current?.gamesPlayed ?? 0,
+      };
+    }),
+  );
+
+  await prisma.$transaction(
+    changes.flatMap((c) => [
+      prisma.rating.upsert({
+        where: { userId_role: { userId: c.userId, role: c.role } },
+        update: { rating: c.after, gamesPlayed: { increment: 1 } },
+        create: { userId: c.userId, role: c.role, rating: c.after, gamesPlayed: 1 },
+      }),
+      prisma.ratingHistory.create({
+        data: { userId: c.userId, role: c.role, gameId, before: c.before, after: c.after },
+      }),
+    ]),
+  );
+
+  return changes;
+}
+
+/** Current rating per role plus the most recent changes, newest first */
+export async function getUserRatings(userId: string, role?: PlayerRole) {
+  const [ratings, history] = await Promise.all([
+    prisma.rating.findMany({ where: { userId, ...(role ? { role } : {}) }, orderBy: { role: 'asc' } }),
+    prisma.ratingHistory.findMany({
+      where: { userId, ...(role ? { role } : {}) },
+      orderBy: { createdAt: 'desc' },
+      take: RATING_CONFIG.HISTORY_LIMIT,
+    }),
+  ]);
+
+  return {
+    ratings: ratings.map((r) => ({ role: r.role, rating: r.rating, gamesPlayed: r.gamesPlayed })),
+    history: history.map((h) => ({
+      role: h.role,
+      gameId: h.gameId,
+      before: h.before,
+      after: h.after,
+      createdAt: h.createdAt,
+    })),
+  };
+}
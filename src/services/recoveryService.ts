@@ -0,0 +1,170 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { GameState } from '../types';
+import {
+  getGameState,
+  getActiveRoomIds,
+  restoreGameState,
+  discardGameState,
+} from './gameService';
+import { resolveRoomSettings } from './roomSettings';
+import { getRoleDefinition } from './roles';
+import { GAME_CONFIG } from '../constants';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Recovery — reconcile Redis game state with the DB after a restart
+//
+// Every clue, vote and elimination is also written to the DB, so a game whose
+// Redis state was lost can be rebuilt from its latest Round. Whatever the DB
+// can't explain is aborted instead of left hanging in IN_PROGRESS.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const gameWithHistory = Prisma.validator<Prisma.GameDefaultArgs>()({
+  include: {
+    room: true,
+    participants: { include: { player: true } },
+    rounds: {
+      orderBy: { roundNumber: 'desc' },
+      take: 1,
+      include: {
+        clues: { orderBy: { createdAt: 'asc' }, include: { player: { include: { user: true } } } },
+        votes: { orderBy: { createdAt: 'asc' } },
+      },
+    },
+  },
+});
+
+type GameWithHistory = Prisma.GameGetPayload<typeof gameWithHistory>;
+
+export interface RecoveryReport {
+  restored: string[]; // Room IDs whose GameState was rebuilt from the DB
+  aborted: string[];  // Room IDs whose game could not be rebuilt
+  discarded: string[]; // Room IDs with a stale Redis game the DB had already closed
+}
+
+/** Run once at boot, before deadlines are re-armed. */
+export async function recoverGames(): Promise<RecoveryReport> {
+  const report: RecoveryReport = { restored: [], aborted: [], discarded: [] };
+
+  const games = await prisma.game.findMany({ where: { status: 'IN_PROGRESS' }, ...gameWithHistory });
+  const runningRoomIds = new Set(games.map((g) => g.roomId));
+
+  for (const game of games) {
+    if (await getGameState(game.roomId)) continue;
+
+    const state = rebuildGameState(game);
+    if (!state) {
+      await abortGame(game);
+      report.aborted.push(game.roomId);
+    } else if (await restoreGameState(state)) {
+      report.restored.push(game.roomId);
+    }
+  }
+
+  // Redis still thinks these rooms are playing, but the DB has no running game for them
+  for (const roomId of await getActiveRoomIds()) {
+    if (runningRoomIds.has(roomId) || !(await getGameState(roomId))) continue;
+    await discardGameState(roomId);
+    report.discarded.push(roomId);
+  }
+
+  return report;
+}
+
+/** Rebuild the live state from the latest round, or null if the DB can't explain it. */
+function rebuildGameState(game: GameWithHistory): GameState | null {
+  const round = game.rounds[0];
+  if (!round || round.phase === 'RESULT') return null;
+
+  const alive = game.participants.filter((p) => p.eliminatedRound === null).map((p) => p.playerId);
+  if (alive.length < 2) return null;
+
+  // The turn order itself isn't stored: speakers who already gave a clue keep
+  // their places, everyone else follows in an arbitrary order
+  const spoken = round.clues.filter((c) => !c.isDefence).map((c) => c.playerId);
+  const turnOrder = [...spoken, ...alive.filter((id) => !spoken.includes(id))];
+
+  // A tie-break is under way: its candidates are the players tied on the main vote
+  const mainVotes = round.votes.filter((v) => !v.isRunoff);
+  const runoffVotes = round.votes.filter((v) => v.isRunoff);
+  const defenceCount = round.clues.filter((c) => c.isDefence).length;
+  let runoff: GameState['runoff'] = null;
+  if (round.phase === 'DEFENCE' || runoffVotes.length > 0 || defenceCount > 0) {
+    const candidates = tiedTargets(mainVotes.flatMap((v) => (v.targetId ? [v.targetId] : [])));
+    if (candidates.length < 2) return null;
+    runoff = { candidates, speakerIndex: defenceCount };
+  }
+
+  // The player voted out this round who is owed a guess
+  let guesserId: string | null = null;
+  if (round.phase === 'GUESSING') {
+    const guesser = game.participants.find(
+      (p) => p.eliminatedRound === round.roundNumber && getRoleDefinition(p.role).guessesOnElimination,
+    );
+    if (!guesser) return null;
+    guesserId = guesser.playerId;
+  }
+
+  const settings = resolveRoomSettings(game.room.settings);
+  const now = Date.now();
+  const phaseDeadline =
+    round.phase === 'HINTING' || round.phase === 'DEFENCE'
+      ? now + settings.hintTimeSeconds * 1000
+      : round.phase === 'VOTING'
+        ? now + settings.voteTimeSeconds * 1000
+        : round.phase === 'DISCUSSION'
+          ? now + settings.discussionTimeSeconds * 1000
+          : round.phase === 'GUESSING'
+            ? now + GAME_CONFIG.GUESS_TIME_SECONDS * 1000
+            : null;
+
+  return {
+    roomId: game.roomId,
+    gameId: game.id,
+    roundNumber: round.roundNumber,
+    phase: round.phase,
+    turnOrder,
+    currentTurnIndex: round.phase === 'HINTING' ? spoken.length : turnOrder.length,
+    clues: round.clues.map((c) => ({
+      playerId: c.playerId,
+      displayName: c.player.user.displayName,
+      content: c.content,
+      ...(c.isSkipped ? { skipped: true } : {}),
+      ...(c.isDefence ? { defence: true } : {}),
+      createdAt: c.createdAt,
+    })),
+    votes: Object.fromEntries((runoff ? runoffVotes : mainVotes).map((v) => [v.voterId, v.targetId])),
+    eliminatedPlayers: game.participants.filter((p) => p.eliminatedRound !== null).map((p) => p.playerId),
+    roles: Object.fromEntries(game.participants.map((p) => [p.playerId, p.role])),
+    wordPairId: round.wordPairId,
+    settings,
+    phaseDeadline,
+    runoff,
+    guesserId,
+  };
+}
+
+/** Everyone sharing the highest vote count */
+function tiedTargets(targetIds: string[]): string[] {
+  const counts = new Map<string, number>();
+  for (const id of targetIds) counts.set(id, (counts.get(id) ?? 0) + 1);
+  const max = Math.max(0, ...counts.values());
+  return [...counts].filter(([, count]) => count === max).map(([id]) => id);
+}
+
+async function abortGame(game: GameWithHistory): Promise<void> {
+  const endedAt = new Date();
+  await prisma.$transaction([
+    prisma.game.update({
+      where: { id: game.id },
+      data: {
+        status: 'ABORTED',
+        endedAt,
+        durationSeconds: Math.round((endedAt.getTime() - game.startedAt.getTime()) / 1000),
+      },
+    }),
+    prisma.round.updateMany({ where: { gameId: game.id, endedAt: null }, data: { phase: 'RESULT', endedAt } }),
+    prisma.room.update({ where: { id: game.roomId }, data: { status: 'FINISHED' } }),
+  ]);
+  await discardGameState(game.roomId);
+}
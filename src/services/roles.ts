@@ -0,0 +1,108 @@
+import { PlayerRole } from '@prisma/client';
+import { RoomSettings } from '../types';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Role Registry — what each role knows, how many are dealt and how it wins
+//
+// Game flow asks the registry instead of branching on PlayerRole, so a new
+// role is a PlayerRole value plus one definition here.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/** Living players per role */
+export type RoleCounts = Record<PlayerRole, number>;
+
+// CIVILIAN = the majority who know word A, IMPOSTOR = everyone trying not to be found out
+export type Team = 'CIVILIAN' | 'IMPOSTOR';
+
+export interface RoleDefinition {
+  name: string;            // Vietnamese display name
+  team: Team;
+  word: 'A' | 'B' | null;  // Which word of the pair the role is dealt (A = the civilians' word)
+  intro: string;           // Private message when the role is dealt
+  winMessage: string;      // game:over headline when this role wins
+  /** How many to deal at `playerCount` players; omitted for the role that fills the remaining seats */
+  count?: (playerCount: number, settings: RoomSettings) => number;
+  guessesOnElimination?: boolean; // Gets one guess at word A when voted out
+  // How much easier the role is to win with, in rating points. Winning with a hard
+  // role earns more than winning with an easy one against the same opposition.
+  ratingAdvantage: number;
+}
+
+// Declaration order matters: the first living role of a team is credited with the team's win
+export const ROLE_DEFINITIONS: Record<PlayerRole, RoleDefinition> = {
+  BLACK_HAT: {
+    name: 'Mũ Đen',
+    team: 'IMPOSTOR',
+    word: 'B',
+    intro: 'Bạn là Mũ Đen! Hãy che giấu danh tính của mình.',
+    winMessage: '🖤 Mũ Đen thắng!',
+    count: (_, settings) => settings.blackHatCount,
+    ratingAdvantage: -50,
+  },
+  CIVILIAN: {
+    name: 'Dân',
+    team: 'CIVILIAN',
+    word: 'A',
+    intro: 'Bạn là Dân! Hãy gợi ý từ của bạn mà không làm lộ danh tính.',
+    winMessage: '👥 Dân thắng!',
+    ratingAdvantage: 50,
+  },
+  WHITE_HAT: {
+    name: 'Mũ Trắng',
+    team: 'IMPOSTOR',
+    word: null,
+    intro: 'Bạn là Mũ Trắng! Hãy nghe thật kỹ và đoán từ của Dân.',
+    winMessage: '🎉 Mũ Trắng thắng!',
+    count: (playerCount, settings) =>
+      settings.whiteHatEnabled && playerCount >= settings.whiteHatMinPlayers ? settings.whiteHatCount : 0,
+    guessesOnElimination: true,
+    ratingAdvantage: -100,
+  },
+};
+
+const FILLER_ROLE = listRoles().find((role) => !ROLE_DEFINITIONS[role].count)!;
+
+export function getRoleDefinition(role: PlayerRole): RoleDefinition {
+  return ROLE_DEFINITIONS[role];
+}
+
+export function emptyRoleCounts(): RoleCounts {
+  return Object.fromEntries(listRoles().map((role) => [role, 0])) as RoleCounts;
+}
+
+/** How many of each role a game of `playerCount` would be dealt */
+export function countRoles(playerCount: number, settings: RoomSettings): RoleCounts {
+  const counts = emptyRoleCounts();
+  let dealt = 0;
+  for (const [role, definition] of Object.entries(ROLE_DEFINITIONS) as [PlayerRole, RoleDefinition][]) {
+    if (!definition.count) continue;
+    counts[role] = definition.count(playerCount, settings);
+    dealt += counts[role];
+  }
+  counts[FILLER_ROLE] = Math.max(0, playerCount - dealt);
+  return counts;
+}
+
+/** One role per seat, shuffled */
+export function dealRoles(playerCount: number, settings: RoomSettings): PlayerRole[] {
+  const roles = (Object.entries(countRoles(playerCount, settings)) as [PlayerRole, number][]).flatMap(
+    ([role, count]) => Array<PlayerRole>(count).fill(role),
+  );
+
+  for (let i = roles.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [roles[i], roles[j]] = [roles[j], roles[i]];
+  }
+
+  return roles;
+}
+
+export function wordForRole(role: PlayerRole, pair: { wordA: string; wordB: string }): string | null {
+  const { word } = ROLE_DEFINITIONS[role];
+  return word === 'A' ? pair.wordA : word === 'B' ? pair.wordB : null;
+}
+
+/** Registered roles in declaration order */
+export function listRoles(): PlayerRole[] {
+  return Object.keys(ROLE_DEFINITIONS) as PlayerRole[];
+}
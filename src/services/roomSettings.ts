@@ -0,0 +1,141 @@
+import { BallotMode, RoomSettings, TieRule, WordMode } from '../types';
+import { GAME_CONFIG, ROOM_SETTINGS_LIMITS } from '../constants';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Room Settings — defaults, merging and validation of host-chosen rules
+// ─────────────────────────────────────────────────────────────────────────────
+
+export function defaultRoomSettings(): RoomSettings {
+  return {
+    maxPlayers: GAME_CONFIG.MAX_PLAYERS,
+    hintTimeSeconds: GAME_CONFIG.HINT_TIME_SECONDS,
+    voteTimeSeconds: GAME_CONFIG.VOTE_TIME_SECONDS,
+    discussionTimeSeconds: GAME_CONFIG.DISCUSSION_TIME_SECONDS,
+    whiteHatEnabled: true,
+    whiteHatMinPlayers: GAME_CONFIG.WHITE_HAT_MIN_PLAYERS,
+    whiteHatCount: 1,
+    blackHatCount: 1,
+    categoryIds: [],
+    wordMode: 'FIXED',
+    tieRule: 'RUNOFF',
+    ballotMode: 'SECRET',
+    guessToneInsensitive: true,
+    clueMaxLength: GAME_CONFIG.CLUE_MAX_LENGTH,
+    clueMaxWords: GAME_CONFIG.CLUE_MAX_WORDS,
+    broadcastDelaySeconds: GAME_CONFIG.BROADCAST_DELAY_SECONDS,
+  };
+}
+
+const WORD_MODES: WordMode[] = ['FIXED', 'PER_ROUND'];
+const TIE_RULES: TieRule[] = ['SKIP', 'RUNOFF', 'DEFENCE', 'RANDOM'];
+const BALLOT_MODES: BallotMode[] = ['OPEN', 'SECRET'];
+
+/** Settings as stored on the Room row (JSON, possibly from an older shape) merged over the defaults */
+export function resolveRoomSettings(stored: unknown): RoomSettings {
+  if (!stored || typeof stored !== 'object') return defaultRoomSettings();
+  return { ...defaultRoomSettings(), ...(stored as Partial<RoomSettings>) };
+}
+
+type ValidationResult = { success: true; settings: RoomSettings } | { success: false; message: string };
+
+function isIntInRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Apply a partial settings object from the client on top of `base`.
+ * Unknown keys are rejected so typos don't silently fall back to defaults.
+ */
+export function validateRoomSettings(input: unknown, base: RoomSettings): ValidationResult {
+  if (input === undefined || input === null) return { success: true, settings: base };
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { success: false, message: 'Cài đặt phòng không hợp lệ.' };
+  }
+
+  const patch = input as Record<string, unknown>;
+  const known = Object.keys(base);
+  const unknown = Object.keys(patch).filter((k) => !known.includes(k));
+  if (unknown.length) {
+    return { success: false, message: `Cài đặt không được hỗ trợ: ${unknown.join(', ')}.` };
+  }
+
+  const settings = { ...base, ...patch } as RoomSettings;
+  // "all" is accepted as a friendlier spelling of "no restriction"
+  if (patch.categoryIds === 'all') settings.categoryIds = [];
+
+  const { MIN_PHASE_SECONDS, MAX_PHASE_SECONDS } = ROOM_SETTINGS_LIMITS;
+
+  if (!isIntInRange(settings.maxPlayers, GAME_CONFIG.MIN_PLAYERS, ROOM_SETTINGS_LIMITS.MAX_PLAYERS)) {
+    return {
+      success: false,
+      message: `Số người chơi tối đa phải từ ${GAME_CONFIG.MIN_PLAYERS} đến ${ROOM_SETTINGS_LIMITS.MAX_PLAYERS}.`,
+    };
+  }
+  if (!isIntInRange(settings.hintTimeSeconds, MIN_PHASE_SECONDS, MAX_PHASE_SECONDS)) {
+    return { success: false, message: `Thời gian gợi ý phải từ ${MIN_PHASE_SECONDS} đến ${MAX_PHASE_SECONDS} giây.` };
+  }
+  if (!isIntInRange(settings.voteTimeSeconds, MIN_PHASE_SECONDS, MAX_PHASE_SECONDS)) {
+    return { success: false, message: `Thời gian bỏ phiếu phải từ ${MIN_PHASE_SECONDS} đến ${MAX_PHASE_SECONDS} giây.` };
+  }
+  if (
+    settings.discussionTimeSeconds !== 0 &&
+    !isIntInRange(settings.discussionTimeSeconds, MIN_PHASE_SECONDS, ROOM_SETTINGS_LIMITS.MAX_DISCUSSION_SECONDS)
+  ) {
+    return {
+      success: false,
+      message: `Thời gian thảo luận phải là 0 (bỏ qua) hoặc từ ${MIN_PHASE_SECONDS} đến ${ROOM_SETTINGS_LIMITS.MAX_DISCUSSION_SECONDS} giây.`,
+    };
+  }
+  if (typeof settings.whiteHatEnabled !== 'boolean') {
+    return { success: false, message: 'whiteHatEnabled phải là true hoặc false.' };
+  }
+  if (!isIntInRange(settings.whiteHatMinPlayers, GAME_CONFIG.MIN_PLAYERS, ROOM_SETTINGS_LIMITS.MAX_PLAYERS)) {
+    return { success: false, message: 'Số người tối thiểu để có Mũ Trắng không hợp lệ.' };
+  }
+  if (!isIntInRange(settings.whiteHatCount, 1, ROOM_SETTINGS_LIMITS.MAX_WHITE_HATS)) {
+    return { success: false, message: `Số Mũ Trắng phải từ 1 đến ${ROOM_SETTINGS_LIMITS.MAX_WHITE_HATS}.` };
+  }
+
+  // Impostors must stay a minority even in a full room
+  const maxBlackHats = Math.floor((settings.maxPlayers - 1) / 2);
+  if (!isIntInRange(settings.blackHatCount, 1, maxBlackHats)) {
+    return { success: false, message: `Số Mũ Đen phải từ 1 đến ${maxBlackHats} với ${settings.maxPlayers} người chơi.` };
+  }
+
+  if (
+    !Array.isArray(settings.categoryIds) ||
+    settings.categoryIds.length > ROOM_SETTINGS_LIMITS.MAX_CATEGORIES ||
+    settings.categoryIds.some((id) => typeof id !== 'string' || !id)
+  ) {
+    return { success: false, message: 'Danh sách danh mục không hợp lệ.' };
+  }
+  settings.categoryIds = [...new Set(settings.categoryIds)];
+
+  if (!WORD_MODES.includes(settings.wordMode)) {
+    return { success: false, message: `wordMode phải là một trong: ${WORD_MODES.join(', ')}.` };
+  }
+  if (!TIE_RULES.includes(settings.tieRule)) {
+    return { success: false, message: `tieRule phải là một trong: ${TIE_RULES.join(', ')}.` };
+  }
+  if (!BALLOT_MODES.includes(settings.ballotMode)) {
+    return { success: false, message: `ballotMode phải là một trong: ${BALLOT_MODES.join(', ')}.` };
+  }
+  if (typeof settings.guessToneInsensitive !== 'boolean') {
+    return { success: false, message: 'guessToneInsensitive phải là true hoặc false.' };
+  }
+  if (!isIntInRange(settings.clueMaxLength, 1, ROOM_SETTINGS_LIMITS.MAX_CLUE_LENGTH)) {
+    return { success: false, message: `Độ dài gợi ý tối đa phải từ 1 đến ${ROOM_SETTINGS_LIMITS.MAX_CLUE_LENGTH} ký tự.` };
+  }
+  if (!isIntInRange(settings.clueMaxWords, 1, ROOM_SETTINGS_LIMITS.MAX_CLUE_WORDS)) {
+    return { success: false, message: `Số từ tối đa của gợi ý phải từ 1 đến ${ROOM_SETTINGS_LIMITS.MAX_CLUE_WORDS}.` };
+  }
+  const { MIN_BROADCAST_DELAY_SECONDS, MAX_BROADCAST_DELAY_SECONDS } = ROOM_SETTINGS_LIMITS;
+  if (!isIntInRange(settings.broadcastDelaySeconds, MIN_BROADCAST_DELAY_SECONDS, MAX_BROADCAST_DELAY_SECONDS)) {
+    return {
+      success: false,
+      message: `Độ trễ phát trực tiếp phải từ ${MIN_BROADCAST_DELAY_SECONDS} đến ${MAX_BROADCAST_DELAY_SECONDS} giây.`,
+    };
+  }
+
+  return { success: true, settings };
+}
@@ -0,0 +1,244 @@
+import { PlayerRole, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
+import { redis } from '../lib/redis';
+import { STATS_CONFIG } from '../constants';
+import { emptyRoleCounts, getRoleDefinition } from './roles';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Redis Key Helpers
+// ─────────────────────────────────────────────────────────────────────────────
+
+const STATS_KEY = (userId: string) => `stats:${userId}`;
+// Bumped whenever a game finishes, so every cached leaderboard page goes stale at once
+const LEADERBOARD_VERSION_KEY = 'leaderboard:version';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Per-player statistics
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface PlayerStats {
+  userId: string;
+  gamesPlayed: number;
+  wins: number;
+  gamesByRole: Record<PlayerRole, number>;
+  winsByRole: Record<PlayerRole, number>;
+  survivalRate: number;
+  whiteHatGuesses: { attempts: number; correct: number };
+  // Of the votes cast on the civilian team, how many targeted a real impostor
+  voteAccuracy: { votes: number; correct: number; rate: number };
+}
+
+function ratio(part: number, whole: number): number {
+  return whole === 0 ? 0 : Math.round((part / whole) * 1000) / 1000;
+}
+
+export async function getUserStats(userId: string): Promise<PlayerStats> {
+  const cached = await redis.get(STATS_KEY(userId));
+  if (cached) return JSON.parse(cached) as PlayerStats;
+
+  const stats = await computeUserStats(userId);
+  await redis.setex(STATS_KEY(userId), STATS_CONFIG.STATS_CACHE_TTL_SECONDS, JSON.stringify(stats));
+  return stats;
+}
+
+async function computeUserStats(userId: string): Promise<PlayerStats> {
+  const finished = { status: 'FINISHED' as const };
+
+  const participations = await prisma.gameParticipant.findMany({
+    where: { userId, game: finished },
+    select: { role: true, won: true, eliminatedRound: true, guessedCorrectly: true },
+  });
+
+  const gamesByRole = emptyRoleCounts();
+  const winsByRole = emptyRoleCounts();
+  let survived = 0;
+  const whiteHatGuesses = { attempts: 0, correct: 0 };
+
+  for (const p of participations) {
+    gamesByRole[p.role]++;
+    if (p.won) winsByRole[p.role]++;
+    if (p.eliminatedRound === null) survived++;
+    if (p.guessedCorrectly !== null) {
+      whiteHatGuesses.attempts++;
+      if (p.guessedCorrectly) whiteHatGuesses.correct++;
+    }
+  }
+
+  // ── Vote accuracy: roles are per game, so resolve voter/target roles via participants ──
+  const votes = await prisma.vote.findMany({
+    where: { voter: { userId }, round: { game: finished } },
+    select: { voterId: true, targetId: true, round: { select: { gameId: true } } },
+  });
+  const gameIds = [...new Set(votes.map((v) => v.round.gameId))];
+  const seats = await prisma.gameParticipant.findMany({
+    where: { gameId: { in: gameIds } },
+    select: { gameId: true, playerId: true, role: true },
+  });
+  const roleOf = new Map(seats.map((s) => [`${s.gameId}:${s.playerId}`, s.role]));
+
+  const voteAccuracy = { votes: 0, correct: 0, rate: 0 };
+  for (const v of votes) {
+    const gameId = v.round.gameId;
+    // Abstentions don't count either way
+    const voterRole = roleOf.get(`${gameId}:${v.voterId}`);
+    if (!v.targetId || !voterRole || getRoleDefinition(voterRole).team !== 'CIVILIAN') continue;
+    voteAccuracy.votes++;
+    const targetRole = roleOf.get(`${gameId}:${v.targetId}`);
+    if (targetRole && getRoleDefinition(targetRole).team === 'IMPOSTOR') voteAccuracy.correct++;
+  }
+  voteAccuracy.rate = ratio(voteAccuracy.correct, voteAccuracy.votes);
+
+  const wins = Object.values(winsByRole).reduce((a, b) => a + b, 0);
+
+  return {
+    userId,
+    gamesPlayed: participations.length,
+    wins,
+    gamesByRole,
+    winsByRole,
+    survivalRate: ratio(survived, participations.length),
+    whiteHatGuesses,
+    voteAccuracy,
+  };
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Leaderboard
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type LeaderboardPeriod = 'weekly' | 'all';
+export type LeaderboardSort = 'wins' | 'rating';
+
+export interface LeaderboardQuery {
+  period: LeaderboardPeriod;
+  sort: LeaderboardSort;
+  role?: PlayerRole;
+  page: number;
+  limit: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  userId: string;
+  displayName: string;
+  avatar: string | null;
+  wins: number;
+  gamesPlayed: number;
+  winRate: number;
+  rating: number | null; // Role rating, or the mean across roles for the overall board
+}
+
+export async function getLeaderboard(
+  query: LeaderboardQuery,
+): Promise<{ entries: LeaderboardEntry[]; total: number }> {
+  const version = (await redis.get(LEADERBOARD_VERSION_KEY)) ?? '0';
+  const cacheKey = `leaderboard:v${version}:${query.sort}:${query.period}:${query.role ?? 'ALL'}:${query.page}:${query.limit}`;
+
+  const cached = await redis.get(cacheKey);
+  if (cached) return JSON.parse(cached);
+
+  const { userIds, total } =
+    query.sort === 'rating' ? await rankByRating(query) : await rankByWins(query);
+  const result = { entries: await buildEntries(userIds, query), total };
+
+  await redis.setex(cacheKey, STATS_CONFIG.LEADERBOARD_CACHE_TTL_SECONDS, JSON.stringify(result));
+  return result;
+}
+
+function periodStart(period: LeaderboardPeriod): Date | null {
+  return period === 'weekly' ? new Date(Date.now() - 7 * 24 * 3600 * 1000) : null;
+}
+
+function participantFilter(query: LeaderboardQuery): Prisma.GameParticipantWhereInput {
+  const since = periodStart(query.period);
+  return {
+    game: { status: 'FINISHED', ...(since ? { endedAt: { gte: since } } : {}) },
+    ...(query.role ? { role: query.role } : {}),
+  };
+}
+
+async function rankByWins(query: LeaderboardQuery) {
+  const where = { ...participantFilter(query), won: true };
+
+  const [page, all] = await Promise.all([
+    prisma.gameParticipant.groupBy({
+      by: ['userId'],
+      where,
+      _count: { _all: true },
+      orderBy: [{ _count: { userId: 'desc' } }, { userId: 'asc' }],
+      skip: (query.page - 1) * query.limit,
+      take: query.limit,
+    }),
+    prisma.gameParticipant.groupBy({ by: ['userId'], where }),
+  ]);
+
+  return { userIds: page.map((g) => g.userId), total: all.length };
+}
+
+async function rankByRating(query: LeaderboardQuery) {
+  const since = periodStart(query.period);
+  const where: Prisma.RatingWhereInput = {
+    ...(query.role ? { role: query.role } : {}),
+    // Weekly board: only players whose rating moved this week
+    ...(since ? { user: { ratingHistory: { some: { createdAt: { gte: since } } } } } : {}),
+  };
+
+  const [page, all] = await Promise.all([
+    prisma.rating.groupBy({
+      by: ['userId'],
+      where,
+      _avg: { rating: true },
+      orderBy: [{ _avg: { rating: 'desc' } }, { userId: 'asc' }],
+      skip: (query.page - 1) * query.limit,
+      take: query.limit,
+    }),
+    prisma.rating.groupBy({ by: ['userId'], where }),
+  ]);
+
+  return { userIds: page.map((g) => g.userId), total: all.length };
+}
+
+/** Fill in wins, games and rating for an already-ranked page of users */
+async function buildEntries(userIds: string[], query: LeaderboardQuery): Promise<LeaderboardEntry[]> {
+  const where = { ...participantFilter(query), userId: { in: userIds } };
+
+  const [winGroups, playedGroups, ratingGroups, users] = await Promise.all([
+    prisma.gameParticipant.groupBy({ by: ['userId'], where: { ...where, won: true }, _count: { _all: true } }),
+    prisma.gameParticipant.groupBy({ by: ['userId'], where, _count: { _all: true } }),
+    prisma.rating.groupBy({
+      by: ['userId'],
+      where: { userId: { in: userIds }, ...(query.role ? { role: query.role } : {}) },
+      _avg: { rating: true },
+    }),
+    prisma.user.findMany({ where: { id: { in: userIds } } }),
+  ]);
+
+  const wins = new Map(winGroups.map((g) => [g.userId, g._count._all]));
+  const played = new Map(playedGroups.map((g) => [g.userId, g._count._all]));
+  const ratings = new Map(ratingGroups.map((g) => [g.userId, g._avg.rating]));
+  const userById = new Map(users.map((u) => [u.id, u]));
+
+  return userIds.map((userId, i): LeaderboardEntry => {
+    const user = userById.get(userId);
+    const rating = ratings.get(userId);
+    return {
+      rank: (query.page - 1) * query.limit + i + 1,
+      userId,
+      displayName: user?.displayName ?? '',
+      avatar: user?.avatar ?? null,
+      wins: wins.get(userId) ?? 0,
+      gamesPlayed: played.get(userId) ?? 0,
+      winRate: ratio(wins.get(userId) ?? 0, played.get(userId) ?? 0),
+      rating: rating != null ? Math.round(rating * 10) / 10 : null,
+    };
+  });
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cache invalidation — called once a game's outcome is persisted
+// ─────────────────────────────────────────────────────────────────────────────
+
+export async function invalidateStats(userIds: string[]): Promise<void> {
+  if (userIds.length) await redis.del(...userIds.map(STATS_KEY));
+  await redis.incr(LEADERBOARD_VERSION_KEY);
+}
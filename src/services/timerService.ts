@@ -0,0 +1,74 @@
+import { randomUUID } from 'crypto';
+import { redis } from '../lib/redis';
+import { TIMER_CONFIG } from '../constants';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Timer Service — in-process handles for server-enforced deadlines
+//
+// The deadlines themselves are stored in Redis (GameState.phaseDeadline), so a
+// restarted process can re-arm them; this module keeps the setTimeout handles
+// that fire them on the current node, plus a Redis lease recording which node
+// owns each shared timer.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const timers = new Map<string, NodeJS.Timeout>();
+
+/** Run `handler` at epoch-ms `at`, replacing any timer already scheduled under `key`. */
+export function scheduleAt(key: string, at: number, handler: () => Promise<void>): void {
+  cancelTimer(key);
+
+  const timer = setTimeout(() => {
+    timers.delete(key);
+    handler().catch((err) => console.error(`[Timer] ${key} failed:`, err));
+  }, Math.max(0, at - Date.now()));
+
+  // Never keep the process alive just for a pending deadline
+  timer.unref();
+  timers.set(key, timer);
+}
+
+export function cancelTimer(key: string): void {
+  const timer = timers.get(key);
+  if (timer) {
+    clearTimeout(timer);
+    timers.delete(key);
+  }
+}
+
+export function cancelAllTimers(): void {
+  for (const timer of timers.values()) clearTimeout(timer);
+  timers.clear();
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Cross-node ownership — with several backends behind the load balancer only
+// the lease holder fires a shared timer. The lease runs a little past the
+// deadline; if it lapses the owner died, and another node adopts the timer.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export const NODE_ID = randomUUID();
+
+const OWNER_KEY = (key: string) => `timer_owner:${key}`;
+
+function leaseMs(at: number): number {
+  return Math.max(0, at - Date.now()) + TIMER_CONFIG.LEASE_GRACE_MS;
+}
+
+/** Take over `key` on this node (used by whichever node just moved the game on) */
+export async function claimTimer(key: string, at: number): Promise<void> {
+  await redis.set(OWNER_KEY(key), NODE_ID, 'PX', leaseMs(at));
+}
+
+/** Take over `key` only if no live node owns it. Returns whether this node now does. */
+export async function adoptTimer(key: string, at: number): Promise<boolean> {
+  return (await redis.set(OWNER_KEY(key), NODE_ID, 'PX', leaseMs(at), 'NX')) === 'OK';
+}
+
+export async function ownsTimer(key: string): Promise<boolean> {
+  return (await redis.get(OWNER_KEY(key))) === NODE_ID;
+}
+
+export async function releaseTimer(key: string): Promise<void> {
+  cancelTimer(key);
+  if (await ownsTimer(key)) await redis.del(OWNER_KEY(key));
+}
@@ -0,0 +1,83 @@
+import { PlayerRole } from '@prisma/client';
+import { GameState } from '../types';
+import { getRoleDefinition, listRoles, Team } from './roles';
+
+// ─────────────────────────────────────────────────────────────────────────────
+// Win Conditions — pure evaluation of a game's outcome from GameState
+//
+// Works off the roles dealt at the start, GameState.eliminatedPlayers and who left
+// the room, so it needs no DB access and can be unit-tested on its own.
+// ─────────────────────────────────────────────────────────────────────────────
+
+export type WinReason =
+  | 'IMPOSTORS_ELIMINATED' // No impostor is left alive
+  | 'IMPOSTOR_PARITY'      // Impostors equal or outnumber the civilians, who can no longer vote them out
+  | 'WORD_GUESSED';        // An eliminated White Hat guessed the civilians' word
+
+export interface WinResult {
+  winner: PlayerRole;
+  reason: WinReason;
+  explanation: string; // Vietnamese, shown with game:over
+}
+
+/**
+ * Who has won now that the board looks like this, or null if the game goes on.
+ * Players in `departed` left the room mid-game: nobody can vote them out any more,
+ * so they count as out just like the eliminated.
+ */
+export function evaluateWin(
+  state: Pick<GameState, 'roles' | 'eliminatedPlayers'>,
+  departed: readonly string[] = [],
+): WinResult | null {
+  const alive = Object.entries(state.roles)
+    .filter(([playerId]) => !state.eliminatedPlayers.includes(playerId) && !departed.includes(playerId))
+    .map(([, role]) => role);
+  return evaluateAlive(alive);
+}
+
+/** Same rules, given just the roles of the players still alive */
+export function evaluateAlive(alive: PlayerRole[]): WinResult | null {
+  const onTeam = (team: Team) => alive.filter((role) => getRoleDefinition(role).team === team);
+  const civilians = onTeam('CIVILIAN');
+  const impostors = onTeam('IMPOSTOR');
+
+  if (impostors.length === 0) {
+    return {
+      winner: teamLead('CIVILIAN', civilians),
+      reason: 'IMPOSTORS_ELIMINATED',
+      explanation: `Tất cả ${teamNames('IMPOSTOR')} đã bị loại.`,
+    };
+  }
+
+  if (impostors.length >= civilians.length) {
+    return {
+      winner: teamLead('IMPOSTOR', impostors),
+      reason: 'IMPOSTOR_PARITY',
+      explanation: `Còn ${impostors.length} kẻ xâm nhập và ${civilians.length} ${teamNames('CIVILIAN')} — không thể loại họ được nữa.`,
+    };
+  }
+
+  return null;
+}
+
+/** An eliminated player's correct guess ends the game in their favour */
+export function guessWin(role: PlayerRole, word: string): WinResult {
+  return {
+    winner: role,
+    reason: 'WORD_GUESSED',
+    explanation: `${getRoleDefinition(role).name} đã đoán đúng từ "${word}" sau khi bị loại.`,
+  };
+}
+
+// The team's first role in registry order that is still alive takes the credit
+function teamLead(team: Team, alive: PlayerRole[]): PlayerRole {
+  const roles = listRoles().filter((role) => getRoleDefinition(role).team === team);
+  return roles.find((role) => alive.includes(role)) ?? roles[0];
+}
+
+function teamNames(team: Team): string {
+  return listRoles()
+    .filter((role) => getRoleDefinition(role).team === team)
+    .map((role) => getRoleDefinition(role).name)
+    .join(' và ');
+}
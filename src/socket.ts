@@ -1,20 +1,55 @@
-import { Server as SocketIOServer } from 'socket.io';
+import { Server as SocketIOServer, Socket } from 'socket.io';
 import { Server as HttpServer } from 'http';
+import { createAdapter } from '@socket.io/redis-adapter';
 import { verifyJwt } from './lib/jwt';
+import { LockTimeoutError } from './lib/lock';
 import { prisma } from './lib/prisma';
-import { SOCKET_EVENTS, GAME_CONFIG } from './constants';
+import { redis } from './lib/redis';
+import { SOCKET_EVENTS, GAME_CONFIG, TIMER_CONFIG } from './constants';
 import {
   getRoomState,
   startGame,
+  rematchRoom,
+  kickPlayer,
+  transferHost,
+  setRoomLocked,
+  migrateHost,
   submitClue,
   submitVote,
   resolveVotes,
   submitWhiteHatGuess,
   getWordForPlayer,
   getGameState,
+  getActiveRoomIds,
+  skipExpiredTurn,
+  closeDiscussion,
+  closeVoting,
+  expireGuess,
+  getGameSnapshot,
+  setPlayerConnection,
+  drainGameState,
+  currentSpeakerId,
+  removeSpectator,
+  enterGhostView,
+  getGhostView,
+  RoundResolution,
+  TurnOutcome,
+  WhiteHatGuessResult,
+  WinFields,
 } from './services/gameService';
-import { SocketData } from './types';
-import { PlayerRole } from '@prisma/client';
+import {
+  scheduleAt,
+  cancelTimer,
+  claimTimer,
+  adoptTimer,
+  ownsTimer,
+  releaseTimer,
+  cancelAllTimers,
+} from './services/timerService';
+import { GameState, ModerationPayload, RoomState, SocketData, VotePayload } from './types';
+import { getRoleDefinition } from './services/roles';
+import { getChatHistory, resolveChatChannel, sendChatMessage } from './services/chatService';
+import { releaseReveals, scheduleReveal, setupBroadcast, toRoom } from './broadcast';
 
 export function setupSocketIO(httpServer: HttpServer): SocketIOServer {
   const io = new SocketIOServer(httpServer, {
@@ -24,6 +59,10 @@ export function setupSocketIO(httpServer: HttpServer): SocketIOServer {
     },
   });
 
+  // Room broadcasts and fetchSockets() go through Redis so every node sees every socket
+  io.adapter(createAdapter(redis, redis.duplicate()));
+  setupBroadcast(io);
+
   // ── Auth middleware for socket connections ──
   io.use(async (socket, next) => {
     const token =
@@ -48,25 +87,54 @@ export function setupSocketIO(httpServer: HttpServer): SocketIOServer {
 
     // ── JOIN ROOM ──────────────────────────────────────────────────
     socket.on(SOCKET_EVENTS.JOIN_ROOM, async (roomId: string) => {
-      const roomState = await getRoomState(roomId);
-      if (!roomState) {
-        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Phòng không tồn tại.' });
-        return;
-      }
-
-      const player = roomState.players.find((p) => p.userId === userData.id);
-      if (!player) {
-        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Bạn chưa tham gia phòng này qua API.' });
-        return;
-      }
+      try {
+        const roomState = await getRoomState(roomId);
+        if (!roomState) {
+          socket.emit(SOCKET_EVENTS.ERROR, { message: 'Phòng không tồn tại.' });
+          return;
+        }
 
-      (socket.data as SocketData).roomId = roomId;
-      (socket.data as SocketData).playerId = player.id;
-      socket.join(roomId);
+        const player = roomState.players.find((p) => p.userId === userData.id);
+        if (player?.isBanned) {
+          socket.emit(SOCKET_EVENTS.ERROR, { message: 'Bạn đã bị chủ phòng cấm vào phòng này.' });
+          return;
+        }
+        if (!player?.isActive && roomState.spectators.some((s) => s.userId === userData.id)) {
+          await joinAsSpectator(socket, roomState);
+          return;
+        }
+        if (!player) {
+          socket.emit(SOCKET_EVENTS.ERROR, { message: 'Bạn chưa tham gia phòng này qua API.' });
+          return;
+        }
 
-      // Notify all players in room
-      io.to(roomId).emit(SOCKET_EVENTS.ROOM_UPDATED, { room: roomState });
-      console.log(`[Socket] ${userData.displayName} joined room ${roomState.code}`);
+        (socket.data as SocketData).roomId = roomId;
+        (socket.data as SocketData).playerId = player.id;
+        socket.join(roomId);
+        socket.join(PLAYER_ROOM(player.id));
+
+        // Back within the grace period → cancel the pending "gone" handling
+        cancelTimer(GRACE_TIMER_KEY(player.id));
+        const updated =
+          player.connection && player.connection !== 'ONLINE'
+            ? await setPlayerConnection(roomId, player.id, 'ONLINE')
+            : roomState;
+
+        // Notify all players in room
+        toRoom(io, roomId).emit(SOCKET_EVENTS.ROOM_UPDATED, { room: updated });
+        console.log(`[Socket] ${userData.displayName} joined room ${roomState.code}`);
+
+        // Mid-game (re)join: role, word and turn prompts were only sent once, so resend them privately
+        if (roomState.status === 'IN_PROGRESS') {
+          const snapshot = await getGameSnapshot(roomId, player.id);
+          if (snapshot?.ghost) socket.join(GHOST_ROOM(roomId));
+          if (snapshot) socket.emit(SOCKET_EVENTS.GAME_SYNC, snapshot);
+        }
+        await sendChatHistory(socket, roomId, player.id);
+      } catch (err) {
+        console.error('[Socket] JOIN_ROOM error:', err);
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Lỗi vào phòng: ' + (err as Error).message });
+      }
     });
 
     // ── LEAVE ROOM ─────────────────────────────────────────────────
@@ -76,7 +144,109 @@ export function setupSocketIO(httpServer: HttpServer): SocketIOServer {
 
     socket.on('disconnect', async () => {
       console.log(`[Socket] Ngắt kết nối: ${userData.displayName}`);
-      await handleLeaveRoom(socket, io, userData.id);
+      try {
+        await handleDisconnect(socket, io, userData.id);
+      } catch (err) {
+        console.error('[Socket] disconnect error:', err);
+      }
+    });
+
+    // ── REMATCH ────────────────────────────────────────────────────
+    socket.on(SOCKET_EVENTS.REMATCH, async (roomId: unknown) => {
+      if (typeof roomId !== 'string' || !roomId) {
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Thiếu mã phòng.' });
+        return;
+      }
+      try {
+        const result = await rematchRoom(roomId, userData.id);
+        if (!result.success) {
+          socket.emit(SOCKET_EVENTS.ERROR, { message: result.message });
+          return;
+        }
+
+        toRoom(io, roomId).emit(SOCKET_EVENTS.REMATCH_STARTED, {
+          room: result.room,
+          message: 'Chủ phòng đã mở ván mới! Chờ chủ phòng bắt đầu.',
+        });
+        toRoom(io, roomId).emit(SOCKET_EVENTS.ROOM_UPDATED, { room: result.room });
+      } catch (err) {
+        console.error('[Socket] REMATCH error:', err);
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Lỗi mở ván mới: ' + (err as Error).message });
+      }
+    });
+
+    // ── HOST MODERATION ────────────────────────────────────────────
+    // Payloads come straight from the client: check their shape before touching the DB
+    const readTarget = (payload?: ModerationPayload | null): { roomId: string; playerId: string } | null => {
+      const { roomId, playerId } = payload ?? {};
+      if (typeof roomId === 'string' && roomId && typeof playerId === 'string' && playerId) return { roomId, playerId };
+      socket.emit(SOCKET_EVENTS.ERROR, { message: 'Thiếu phòng hoặc người chơi.' });
+      return null;
+    };
+    const moderationFailed = (event: string, err: unknown) => {
+      console.error(`[Socket] ${event} error:`, err);
+      socket.emit(SOCKET_EVENTS.ERROR, { message: 'Lỗi quản lý phòng: ' + (err as Error).message });
+    };
+
+    const removePlayer = (ban: boolean) => async (payload?: ModerationPayload | null) => {
+      const target = readTarget(payload);
+      if (!target) return;
+      const { roomId, playerId } = target;
+      try {
+        const result = await kickPlayer(roomId, userData.id, playerId, ban);
+        if (!result.success) {
+          socket.emit(SOCKET_EVENTS.ERROR, { message: result.message });
+          return;
+        }
+
+        io.to(PLAYER_ROOM(playerId)).emit(SOCKET_EVENTS.KICKED, {
+          banned: ban,
+          message: ban ? 'Bạn đã bị chủ phòng cấm khỏi phòng.' : 'Bạn đã bị chủ phòng mời ra khỏi phòng.',
+        });
+        io.in(PLAYER_ROOM(playerId)).socketsLeave(roomId);
+        toRoom(io, roomId).emit(SOCKET_EVENTS.ROOM_UPDATED, { room: result.room });
+      } catch (err) {
+        moderationFailed(ban ? 'BAN' : 'KICK', err);
+      }
+    };
+    socket.on(SOCKET_EVENTS.KICK, removePlayer(false));
+    socket.on(SOCKET_EVENTS.BAN, removePlayer(true));
+
+    socket.on(SOCKET_EVENTS.TRANSFER_HOST, async (payload?: ModerationPayload | null) => {
+      const target = readTarget(payload);
+      if (!target) return;
+      try {
+        const result = await transferHost(target.roomId, userData.id, target.playerId);
+        if (!result.success) {
+          socket.emit(SOCKET_EVENTS.ERROR, { message: result.message });
+          return;
+        }
+        toRoom(io, target.roomId).emit(SOCKET_EVENTS.ROOM_UPDATED, { room: result.room });
+      } catch (err) {
+        moderationFailed('TRANSFER_HOST', err);
+      }
+    });
+
+    socket.on(SOCKET_EVENTS.LOCK, async (payload?: { roomId?: unknown; locked?: unknown } | null) => {
+      const { roomId, locked } = payload ?? {};
+      if (typeof roomId !== 'string' || !roomId) {
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Thiếu mã phòng.' });
+        return;
+      }
+      if (typeof locked !== 'boolean') {
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'locked phải là true hoặc false.' });
+        return;
+      }
+      try {
+        const result = await setRoomLocked(roomId, userData.id, locked);
+        if (!result.success) {
+          socket.emit(SOCKET_EVENTS.ERROR, { message: result.message });
+          return;
+        }
+        toRoom(io, roomId).emit(SOCKET_EVENTS.ROOM_UPDATED, { room: result.room });
+      } catch (err) {
+        moderationFailed('LOCK', err);
+      }
     });
 
     // ── START GAME ─────────────────────────────────────────────────
@@ -88,52 +258,38 @@ export function setupSocketIO(httpServer: HttpServer): SocketIOServer {
           return;
         }
 
-        // Fetch all players with roles and send individual word
-        const room = await prisma.room.findUnique({
-          where: { id: roomId },
-          include: { players: { include: { user: true } } },
-        });
-
-        if (!room || !result.wordPairId) {
+        // Roles were dealt into the new game's state
+        const state = await getGameState(roomId);
+        if (!state || !result.wordPairId) {
           socket.emit(SOCKET_EVENTS.ERROR, { message: 'Không tìm thấy phòng sau khi bắt đầu.' });
           return;
         }
 
+        // Ghosts of the previous game must not see this one
+        io.in(GHOST_ROOM(roomId)).socketsLeave(GHOST_ROOM(roomId));
+        io.in(ELIMINATED_ROOM(roomId)).socketsLeave(ELIMINATED_ROOM(roomId));
+
         // Emit game started to the room channel (public info)
         const roomState = await getRoomState(roomId);
-        io.to(roomId).emit(SOCKET_EVENTS.GAME_STARTED, { room: roomState });
+        toRoom(io, roomId).emit(SOCKET_EVENTS.GAME_STARTED, { room: roomState });
 
         // Send private role + word to each player
-        const roomSockets = await io.in(roomId).fetchSockets();
-        for (const s of roomSockets) {
-          const sData = s.data as SocketData;
-          if (!sData?.user) continue;
-          const player = room.players.find(
-            (p: { userId: string; id: string; role: PlayerRole | null }) => p.userId === sData.user.id
-          );
-          if (!player || !player.role) continue;
-
-          const word = await getWordForPlayer(result.wordPairId, player.role);
-
-          s.emit(SOCKET_EVENTS.ROUND_STARTED, {
+        for (const [playerId, role] of Object.entries(state.roles)) {
+          const word = await getWordForPlayer(result.wordPairId, role);
+
+          io.to(PLAYER_ROOM(playerId)).emit(SOCKET_EVENTS.ROUND_STARTED, {
             round: 1,
-            role: player.role,
-            word, // null for WHITE_HAT
-            message:
-              player.role === PlayerRole.WHITE_HAT
-                ? 'Bạn là Mũ Trắng! Hãy nghe thật kỹ và đoán từ của Dân.'
-                : player.role === PlayerRole.BLACK_HAT
-                  ? 'Bạn là Mũ Đen! Hãy che giấu danh tính của mình.'
-                  : 'Bạn là Dân! Hãy gợi ý từ của bạn mà không làm lộ danh tính.',
+            role,
+            word, // null for roles dealt no word (White Hat)
+            message: getRoleDefinition(role).intro,
           });
         }
 
+        await scheduleReveal(io, roomId);
+
         // Notify first player's turn
-        const state = await getGameState(roomId);
-        if (state) {
-          const firstPlayerId = state.turnOrder[0];
-          await notifyTurn(io, roomId, firstPlayerId);
-        }
+        await notifyTurn(io, roomId, state.turnOrder[0]);
+        await armPhaseTimer(io, roomId);
       } catch (err) {
         console.error('[Socket] START_GAME error:', err);
         socket.emit(SOCKET_EVENTS.ERROR, { message: 'Lỗi khởi động game: ' + (err as Error).message });
@@ -153,98 +309,127 @@ export function setupSocketIO(httpServer: HttpServer): SocketIOServer {
         return;
       }
 
-      const result = await submitClue(sData.roomId, sData.playerId, content.trim());
-      if (!result.success) {
-        socket.emit(SOCKET_EVENTS.ERROR, { message: result.message });
-        return;
-      }
-
-      const player = await prisma.player.findUnique({
-        where: { id: sData.playerId },
-        include: { user: true },
-      });
+      try {
+        const result = await submitClue(sData.roomId, sData.playerId, content.trim());
+        if (!result.success) {
+          socket.emit(SOCKET_EVENTS.ERROR, { message: result.message, reason: result.reason });
+          return;
+        }
 
-      // Broadcast clue to room
-      io.to(sData.roomId).emit(SOCKET_EVENTS.PLAYER_CLUE_SUBMITTED, {
-        playerId: sData.playerId,
-        displayName: player?.user.displayName,
-        content: content.trim(),
-      });
+        const player = await prisma.player.findUnique({
+          where: { id: sData.playerId },
+          include: { user: true },
+        });
 
-      if (result.votingStarted) {
-        io.to(sData.roomId).emit(SOCKET_EVENTS.VOTING_PHASE_STARTED, {
-          message: 'Tất cả đã đưa ra gợi ý! Bắt đầu bỏ phiếu.',
+        // Broadcast clue to room
+        toRoom(io, sData.roomId).emit(SOCKET_EVENTS.PLAYER_CLUE_SUBMITTED, {
+          playerId: sData.playerId,
+          displayName: player?.user.displayName,
+          content: content.trim(),
+          ...(result.defence ? { defence: true } : {}),
         });
-      } else if (result.nextPlayerId) {
-        await notifyTurn(io, sData.roomId, result.nextPlayerId);
+
+        await announceTurnOutcome(io, sData.roomId, result);
+      } catch (err) {
+        console.error('[Socket] SUBMIT_CLUE error:', err);
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Lỗi gửi gợi ý: ' + (err as Error).message });
       }
     });
 
     // ── SUBMIT VOTE ────────────────────────────────────────────────
-    socket.on(SOCKET_EVENTS.SUBMIT_VOTE, async ({ targetPlayerId }: { targetPlayerId: string }) => {
+    // `abstain: true` casts an explicit "no one" ballot that still counts as having voted
+    socket.on(SOCKET_EVENTS.SUBMIT_VOTE, async ({ targetPlayerId, abstain }: VotePayload = {}) => {
       const sData = socket.data as SocketData;
       if (!sData.roomId || !sData.playerId) {
         socket.emit(SOCKET_EVENTS.ERROR, { message: 'Bạn chưa tham gia phòng.' });
         return;
       }
 
-      const result = await submitVote(sData.roomId, sData.playerId, targetPlayerId);
-      if (!result.success) {
-        socket.emit(SOCKET_EVENTS.ERROR, { message: result.message });
+      if (abstain !== true && (typeof targetPlayerId !== 'string' || !targetPlayerId)) {
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Vui lòng chọn người để bỏ phiếu hoặc bỏ qua.' });
         return;
       }
 
-      const state = await getGameState(sData.roomId);
-      const voteCount = state ? Object.keys(state.votes).length : 0;
+      try {
+        const targetId = abstain === true ? null : targetPlayerId!;
+        const result = await submitVote(sData.roomId, sData.playerId, targetId);
+        if (!result.success) {
+          socket.emit(SOCKET_EVENTS.ERROR, { message: result.message });
+          return;
+        }
 
-      io.to(sData.roomId).emit(SOCKET_EVENTS.VOTE_UPDATE, {
-        voterId: sData.playerId,
-        voteCount,
-      });
+        // Secret ballots only reveal that someone voted; open ballots show the target as well
+        toRoom(io, sData.roomId).emit(SOCKET_EVENTS.VOTE_UPDATE, {
+          voterId: sData.playerId,
+          voteCount: result.voteCount,
+          ...(result.changed ? { changed: true } : {}),
+          ...(result.ballotMode === 'OPEN' ? { targetPlayerId: targetId, abstain: targetId === null } : {}),
+        });
 
-      if (result.allVoted) {
-        // Resolve votes
-        const resolution = await resolveVotes(sData.roomId);
+        if (result.allVoted) {
+          const resolution = await resolveVotes(sData.roomId);
+          if (resolution) await announceResolution(io, sData.roomId, resolution);
+        }
+      } catch (err) {
+        console.error('[Socket] SUBMIT_VOTE error:', err);
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Lỗi bỏ phiếu: ' + (err as Error).message });
+      }
+    });
 
-        if (resolution.eliminatedPlayerId) {
-          const eliminated = await prisma.player.findUnique({
-            where: { id: resolution.eliminatedPlayerId },
-            include: { user: true },
-          });
+    // ── CHAT ───────────────────────────────────────────────────────
+    // Living players talk during DISCUSSION (or outside a game); the eliminated get their own channel
+    socket.on(SOCKET_EVENTS.CHAT_MESSAGE, async ({ content }: { content?: unknown } = {}) => {
+      const sData = socket.data as SocketData;
+      if (!sData.roomId || !sData.playerId) {
+        socket.emit(SOCKET_EVENTS.ERROR, {
+          message: sData.spectator ? 'Người xem không thể trò chuyện.' : 'Bạn chưa tham gia phòng.',
+        });
+        return;
+      }
+      if (typeof content !== 'string') {
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Tin nhắn không được để trống.' });
+        return;
+      }
 
-          io.to(sData.roomId).emit(SOCKET_EVENTS.PLAYER_ELIMINATED, {
-            playerId: resolution.eliminatedPlayerId,
-            displayName: eliminated?.user.displayName,
-            role: resolution.eliminatedRole,
-          });
+      try {
+        const result = await sendChatMessage(sData.roomId, sData.playerId, content);
+        if (!result.success || !result.chat) {
+          socket.emit(SOCKET_EVENTS.ERROR, { message: result.message });
+          return;
+        }
 
-          if (resolution.isWhiteHat) {
-            // Tell the (now eliminated) white hat to guess
-            const whiteHatSocket = await findSocketByPlayerId(io, sData.roomId, resolution.eliminatedPlayerId);
-            whiteHatSocket?.emit(SOCKET_EVENTS.GUESSING_PHASE_STARTED, {
-              message: 'Bạn đã bị loại! Hãy đoán từ của Dân để giành chiến thắng.',
-            });
-            io.to(sData.roomId).emit(SOCKET_EVENTS.GUESSING_PHASE_STARTED, {
-              message: 'Mũ Trắng đang đoán từ...',
-            });
-            return;
-          }
+        if (result.chat.channel === 'GHOST') {
+          io.to(ELIMINATED_ROOM(sData.roomId)).emit(SOCKET_EVENTS.CHAT_MESSAGE, result.chat);
         } else {
-          io.to(sData.roomId).emit(SOCKET_EVENTS.ROUND_RESULT, {
-            message: 'Bỏ phiếu hòa! Không loại ai. Sang vòng tiếp theo.',
-            eliminatedPlayerId: null,
-          });
+          toRoom(io, sData.roomId).emit(SOCKET_EVENTS.CHAT_MESSAGE, result.chat);
         }
+      } catch (err) {
+        console.error('[Socket] CHAT_MESSAGE error:', err);
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Lỗi gửi tin nhắn: ' + (err as Error).message });
+      }
+    });
 
-        if (resolution.gameOver) {
-          io.to(sData.roomId).emit(SOCKET_EVENTS.GAME_OVER, {
-            winner: resolution.winner,
-            message: getWinnerMessage(resolution.winner),
-          });
-        } else if (!resolution.isWhiteHat) {
-          // Start new round
-          await startNewRoundForRoom(io, sData.roomId);
+    // ── ENTER GHOST VIEW (eliminated players) ──────────────────────
+    socket.on(SOCKET_EVENTS.ENTER_GHOST, async () => {
+      const sData = socket.data as SocketData;
+      if (!sData.roomId || !sData.playerId) {
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Bạn chưa tham gia phòng.' });
+        return;
+      }
+
+      try {
+        const result = await enterGhostView(sData.roomId, sData.playerId);
+        if (!result.success || !result.ghost) {
+          socket.emit(SOCKET_EVENTS.ERROR, { message: result.message ?? 'Không thể chuyển sang chế độ hồn ma.' });
+          return;
         }
+
+        // Every socket of this player, on any node, switches over
+        io.in(PLAYER_ROOM(sData.playerId)).socketsJoin(GHOST_ROOM(sData.roomId));
+        io.to(PLAYER_ROOM(sData.playerId)).emit(SOCKET_EVENTS.GHOST_VIEW, result.ghost);
+      } catch (err) {
+        console.error('[Socket] ENTER_GHOST error:', err);
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Lỗi chuyển sang chế độ hồn ma: ' + (err as Error).message });
       }
     });
 
@@ -261,27 +446,16 @@ export function setupSocketIO(httpServer: HttpServer): SocketIOServer {
         return;
       }
 
-      const result = await submitWhiteHatGuess(sData.roomId, sData.playerId, guess.trim());
-      if (!result.success) {
-        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Không thể xử lý lượt đoán.' });
-        return;
-      }
-
-      if (result.gameOver) {
-        io.to(sData.roomId).emit(SOCKET_EVENTS.GAME_OVER, {
-          winner: result.winner,
-          message: getWinnerMessage(result.winner),
-          whiteHatGuess: guess.trim(),
-          correctWord: result.correctWord,
-          correct: result.correct,
-        });
-      } else {
-        io.to(sData.roomId).emit(SOCKET_EVENTS.ROUND_RESULT, {
-          message: `Mũ Trắng đoán sai (đoán: "${guess}"). Từ đúng là "${result.correctWord}". Sang vòng tiếp theo.`,
-          whiteHatGuess: guess.trim(),
-          correctWord: result.correctWord,
-        });
-        await startNewRoundForRoom(io, sData.roomId);
+      try {
+        const result = await submitWhiteHatGuess(sData.roomId, sData.playerId, guess.trim());
+        if (!result.success) {
+          socket.emit(SOCKET_EVENTS.ERROR, { message: result.message ?? 'Không thể xử lý lượt đoán.' });
+          return;
+        }
+        await announceGuess(io, sData.roomId, sData.playerId, guess.trim(), result);
+      } catch (err) {
+        console.error('[Socket] SUBMIT_GUESS error:', err);
+        socket.emit(SOCKET_EVENTS.ERROR, { message: 'Lỗi xử lý lượt đoán: ' + (err as Error).message });
       }
     });
   });
@@ -300,68 +474,440 @@ async function handleLeaveRoom(
   if (!sData.roomId) return;
 
   const roomId = sData.roomId;
+  const playerId = sData.playerId;
+  const spectator = sData.spectator;
   sData.roomId = undefined;
   sData.playerId = undefined;
+  sData.spectator = undefined;
   (socket as unknown as { leave: (room: string) => void }).leave(roomId);
+  socket.leave(GHOST_ROOM(roomId));
+  socket.leave(ELIMINATED_ROOM(roomId));
+  if (playerId) socket.leave(PLAYER_ROOM(playerId));
 
-  const roomState = await getRoomState(roomId);
+  const roomState = spectator ? await removeSpectator(roomId, userId) : await getRoomState(roomId);
   if (roomState) {
-    io.to(roomId).emit(SOCKET_EVENTS.ROOM_UPDATED, { room: roomState });
+    toRoom(io, roomId).emit(SOCKET_EVENTS.ROOM_UPDATED, { room: roomState });
   }
 }
 
-async function notifyTurn(io: SocketIOServer, roomId: string, playerId: string) {
-  const sockets = await io.in(roomId).fetchSockets();
-  for (const s of sockets) {
-    const sData = s.data as SocketData;
-    if (sData.playerId === playerId) {
-      s.emit(SOCKET_EVENTS.YOUR_TURN_TO_HINT, {
-        message: 'Đến lượt bạn đưa ra gợi ý!',
-        timeLimit: GAME_CONFIG.HINT_TIME_SECONDS,
-      });
-    }
+const GRACE_TIMER_KEY = (playerId: string) => `grace:${playerId}`;
+// Every socket of a player joins this room, so private events reach them on whichever node they're connected to
+const PLAYER_ROOM = (playerId: string) => `player:${playerId}`;
+// Eliminated players who opted into seeing every role and word
+const GHOST_ROOM = (roomId: string) => `ghosts:${roomId}`;
+// Everyone voted out of the running game (bar a White Hat still owed a guess) — the ghost chat
+const ELIMINATED_ROOM = (roomId: string) => `eliminated:${roomId}`;
+
+/**
+ * Spectators join the room channel only, which carries nothing private:
+ * roles and words go out on player (and ghost) rooms.
+ */
+async function joinAsSpectator(socket: Socket, roomState: RoomState) {
+  const sData = socket.data as SocketData;
+  sData.roomId = roomState.id;
+  sData.spectator = true;
+  socket.join(roomState.id);
+  socket.emit(SOCKET_EVENTS.ROOM_UPDATED, { room: roomState });
+
+  if (roomState.status === 'IN_PROGRESS') {
+    const snapshot = await getGameSnapshot(roomState.id, null);
+    if (snapshot) socket.emit(SOCKET_EVENTS.GAME_SYNC, snapshot);
   }
+  socket.emit(SOCKET_EVENTS.CHAT_HISTORY, { channel: 'ROOM', messages: await getChatHistory(roomState.id, 'ROOM') });
 }
 
-async function findSocketByPlayerId(io: SocketIOServer, roomId: string, playerId: string) {
-  const sockets = await io.in(roomId).fetchSockets();
-  return sockets.find((s) => (s.data as SocketData).playerId === playerId) ?? null;
+/** Catch a (re)joining player up on the room chat, and on the ghost chat if they may read it */
+async function sendChatHistory(socket: Socket, roomId: string, playerId: string) {
+  socket.emit(SOCKET_EVENTS.CHAT_HISTORY, { channel: 'ROOM', messages: await getChatHistory(roomId, 'ROOM') });
+
+  const state = await getGameState(roomId);
+  const resolved = state ? resolveChatChannel(state, playerId) : null;
+  if (state && resolved?.success && resolved.channel === 'GHOST') {
+    socket.join(ELIMINATED_ROOM(roomId));
+    socket.emit(SOCKET_EVENTS.CHAT_HISTORY, {
+      channel: 'GHOST',
+      messages: await getChatHistory(roomId, 'GHOST', state.gameId),
+    });
+  }
+}
+
+/**
+ * A socket dropped mid-game gets a grace period to reconnect before the player
+ * is treated as gone; outside a game a disconnect is the same as leaving.
+ */
+async function handleDisconnect(socket: Socket, io: SocketIOServer, userId: string) {
+  const { roomId, playerId } = socket.data as SocketData;
+  const game = roomId ? await getGameState(roomId) : null;
+  if (!roomId || !playerId || !game) {
+    await handleLeaveRoom(socket, io, userId);
+    return;
+  }
+
+  // Another tab of the same player is still connected (on any node)
+  if (await isPlayerConnected(io, playerId)) return;
+
+  const roomState = await setPlayerConnection(roomId, playerId, 'RECONNECTING');
+  if (roomState) toRoom(io, roomId).emit(SOCKET_EVENTS.ROOM_UPDATED, { room: roomState });
+
+  scheduleAt(
+    GRACE_TIMER_KEY(playerId),
+    Date.now() + GAME_CONFIG.RECONNECT_GRACE_SECONDS * 1000,
+    () => onGraceExpired(io, roomId, playerId),
+  );
+}
+
+async function onGraceExpired(io: SocketIOServer, roomId: string, playerId: string) {
+  if (await isPlayerConnected(io, playerId)) return;
+
+  const roomState = await setPlayerConnection(roomId, playerId, 'OFFLINE');
+  if (roomState) toRoom(io, roomId).emit(SOCKET_EVENTS.ROOM_UPDATED, { room: roomState });
+
+  // A game can't wait on a host who is gone: someone still here takes over
+  const host = roomState?.players.find((p) => p.userId === roomState.hostId);
+  if (host?.id === playerId) {
+    const migrated = await migrateHost(roomId);
+    if (migrated) toRoom(io, roomId).emit(SOCKET_EVENTS.ROOM_UPDATED, { room: migrated });
+  }
+
+  // If they are holding up the hint phase, skip them now
+  await armPhaseTimer(io, roomId);
+}
+
+async function notifyTurn(io: SocketIOServer, roomId: string, playerId: string) {
+  const state = await getGameState(roomId);
+  io.to(PLAYER_ROOM(playerId)).emit(SOCKET_EVENTS.YOUR_TURN_TO_HINT, {
+    message:
+      state?.phase === 'DEFENCE'
+        ? 'Bạn đang bị hoà phiếu! Hãy đưa ra một gợi ý để thanh minh.'
+        : 'Đến lượt bạn đưa ra gợi ý!',
+    timeLimit: state?.settings.hintTimeSeconds,
+    deadline: state?.phaseDeadline ?? null,
+  });
+}
+
+/** Whether any node still holds a socket for this player */
+async function isPlayerConnected(io: SocketIOServer, playerId: string): Promise<boolean> {
+  const sockets = await io.in(PLAYER_ROOM(playerId)).fetchSockets();
+  return sockets.length > 0;
 }
 
 async function startNewRoundForRoom(io: SocketIOServer, roomId: string) {
   const state = await getGameState(roomId);
   if (!state) return;
 
-  // Send new round info to each player
-  const room = await prisma.room.findUnique({
-    where: { id: roomId },
-    include: { players: { where: { isActive: true }, include: { user: true } } },
+  // PER_ROUND keeps the old pair if none could be drawn
+  const previous = await prisma.round.findFirst({
+    where: { gameId: state.gameId, roundNumber: state.roundNumber - 1 },
+    select: { wordPairId: true },
   });
-  if (!room) return;
+  const wordChanged = state.settings.wordMode === 'PER_ROUND' && previous?.wordPairId !== state.wordPairId;
 
-  const sockets = await io.in(roomId).fetchSockets();
-  for (const s of sockets) {
-    const sData = s.data as SocketData;
-    const player = room.players.find((p: { id: string; role: PlayerRole | null }) => p.id === sData.playerId);
-    if (!player || !player.role) continue;
+  // Send new round info to each player still in the game
+  for (const playerId of state.turnOrder) {
+    const role = state.roles[playerId];
+    if (!role) continue;
 
-    const word = await getWordForPlayer(state.wordPairId, player.role);
-    s.emit(SOCKET_EVENTS.ROUND_STARTED, {
+    const word = await getWordForPlayer(state.wordPairId, role);
+    io.to(PLAYER_ROOM(playerId)).emit(SOCKET_EVENTS.ROUND_STARTED, {
       round: state.roundNumber,
-      role: player.role,
+      role,
       word,
-      message: `Vòng ${state.roundNumber} bắt đầu!`,
+      wordChanged,
+      message: wordChanged
+        ? `Vòng ${state.roundNumber} bắt đầu với từ mới!`
+        : `Vòng ${state.roundNumber} bắt đầu! Từ của bạn vẫn giữ nguyên.`,
     });
   }
 
+  // Ghosts and overlays already know every role, but a new pair means new words
+  if (wordChanged && state.ghosts?.length) {
+    const ghost = await getGhostView(roomId);
+    if (ghost) io.to(GHOST_ROOM(roomId)).emit(SOCKET_EVENTS.GHOST_VIEW, ghost);
+  }
+  if (wordChanged) await scheduleReveal(io, roomId);
+
   if (state.turnOrder.length > 0) {
     await notifyTurn(io, roomId, state.turnOrder[0]);
   }
+  await armPhaseTimer(io, roomId);
+}
+
+/** Tell the room what happens after a clue (or a skipped turn): next speaker or voting. */
+async function announceTurnOutcome(
+  io: SocketIOServer,
+  roomId: string,
+  outcome: TurnOutcome,
+) {
+  if (outcome.discussionStarted) {
+    const state = await getGameState(roomId);
+    toRoom(io, roomId).emit(SOCKET_EVENTS.DISCUSSION_STARTED, {
+      message: 'Tất cả đã đưa ra gợi ý! Hãy thảo luận trước khi bỏ phiếu.',
+      timeLimit: state?.settings.discussionTimeSeconds,
+      deadline: state?.phaseDeadline ?? null,
+    });
+  } else if (outcome.votingStarted && outcome.runoff) {
+    await announceRunoffVote(io, roomId);
+  } else if (outcome.votingStarted) {
+    const state = await getGameState(roomId);
+    toRoom(io, roomId).emit(SOCKET_EVENTS.VOTING_PHASE_STARTED, {
+      message: state?.settings.discussionTimeSeconds
+        ? 'Hết giờ thảo luận! Bắt đầu bỏ phiếu.'
+        : 'Tất cả đã đưa ra gợi ý! Bắt đầu bỏ phiếu.',
+      timeLimit: state?.settings.voteTimeSeconds,
+      deadline: state?.phaseDeadline ?? null,
+    });
+  } else if (outcome.nextPlayerId) {
+    await notifyTurn(io, roomId, outcome.nextPlayerId);
+  }
+  await armPhaseTimer(io, roomId);
+}
+
+async function announceRunoffVote(io: SocketIOServer, roomId: string) {
+  const state = await getGameState(roomId);
+  toRoom(io, roomId).emit(SOCKET_EVENTS.RUNOFF_STARTED, {
+    candidates: state?.runoff?.candidates ?? [],
+    message: 'Bỏ phiếu lại! Chỉ được chọn giữa những người đang hoà phiếu.',
+    timeLimit: state?.settings.voteTimeSeconds,
+    deadline: state?.phaseDeadline ?? null,
+  });
+}
+
+/** Broadcast the outcome of a vote, then kick off the guessing phase or the next round. */
+async function announceResolution(io: SocketIOServer, roomId: string, resolution: RoundResolution) {
+  const tally: Record<string, number> = {};
+  for (const targetId of Object.values(resolution.ballots)) {
+    if (targetId) tally[targetId] = (tally[targetId] || 0) + 1;
+  }
+  toRoom(io, roomId).emit(SOCKET_EVENTS.VOTES_REVEALED, { votes: resolution.ballots, tally });
+
+  if (resolution.runoff) {
+    const { candidates, phase } = resolution.runoff;
+    if (phase === 'DEFENCE') {
+      const state = await getGameState(roomId);
+      toRoom(io, roomId).emit(SOCKET_EVENTS.DEFENCE_STARTED, {
+        candidates,
+        message: 'Bỏ phiếu hoà! Những người bị hoà phiếu lần lượt thanh minh trước khi bỏ phiếu lại.',
+        timeLimit: state?.settings.hintTimeSeconds,
+        deadline: state?.phaseDeadline ?? null,
+      });
+      await notifyTurn(io, roomId, candidates[0]);
+    } else {
+      await announceRunoffVote(io, roomId);
+    }
+    await armPhaseTimer(io, roomId);
+    return;
+  }
+
+  if (resolution.eliminatedPlayerId) {
+    const eliminated = await prisma.player.findUnique({
+      where: { id: resolution.eliminatedPlayerId },
+      include: { user: true },
+    });
+
+    toRoom(io, roomId).emit(SOCKET_EVENTS.PLAYER_ELIMINATED, {
+      playerId: resolution.eliminatedPlayerId,
+      displayName: eliminated?.user.displayName,
+      role: resolution.eliminatedRole,
+      ...(resolution.randomTieBreak ? { randomTieBreak: true } : {}),
+    });
+
+    // Into the ghost chat — unless a guess is still owed, which comes first
+    if (!resolution.isWhiteHat) {
+      io.in(PLAYER_ROOM(resolution.eliminatedPlayerId)).socketsJoin(ELIMINATED_ROOM(roomId));
+    }
+
+    if (resolution.isWhiteHat) {
+      await armPhaseTimer(io, roomId);
+      // Tell the (now eliminated) white hat to guess
+      const deadline = (await getGameState(roomId))?.phaseDeadline ?? null;
+      io.to(PLAYER_ROOM(resolution.eliminatedPlayerId)).emit(SOCKET_EVENTS.GUESSING_PHASE_STARTED, {
+        message: 'Bạn đã bị loại! Hãy đoán từ của Dân để giành chiến thắng.',
+        deadline,
+      });
+      toRoom(io, roomId).emit(SOCKET_EVENTS.GUESSING_PHASE_STARTED, {
+        message: 'Mũ Trắng đang đoán từ...',
+        deadline,
+      });
+      return;
+    }
+  } else if (!resolution.gameOver) {
+    // Nobody out but the game still over (e.g. the last Black Hat left the room): game:over says it all
+    toRoom(io, roomId).emit(SOCKET_EVENTS.ROUND_RESULT, {
+      message: 'Bỏ phiếu hòa! Không loại ai. Sang vòng tiếp theo.',
+      eliminatedPlayerId: null,
+    });
+  }
+
+  if (resolution.gameOver) {
+    cancelTimer(PHASE_TIMER_KEY(roomId));
+    releaseReveals(io, roomId);
+    toRoom(io, roomId).emit(SOCKET_EVENTS.GAME_OVER, {
+      ...gameOverPayload(resolution),
+    });
+  } else {
+    // Start new round
+    await startNewRoundForRoom(io, roomId);
+  }
+}
+
+/** Tell the room how the White Hat's guess went; `guess` is null when time ran out */
+async function announceGuess(
+  io: SocketIOServer,
+  roomId: string,
+  guesserId: string,
+  guess: string | null,
+  result: WhiteHatGuessResult,
+) {
+  if (result.gameOver) {
+    cancelTimer(PHASE_TIMER_KEY(roomId));
+    releaseReveals(io, roomId);
+    toRoom(io, roomId).emit(SOCKET_EVENTS.GAME_OVER, {
+      ...gameOverPayload(result),
+      whiteHatGuess: guess,
+      correctWord: result.correctWord,
+      correct: result.correct,
+      matchType: result.matchType ?? null,
+    });
+    return;
+  }
+
+  const attempt = guess === null ? 'Mũ Trắng hết giờ đoán' : `Mũ Trắng đoán sai (đoán: "${guess}")`;
+  toRoom(io, roomId).emit(SOCKET_EVENTS.ROUND_RESULT, {
+    message: result.correctWord
+      ? `${attempt}. Từ đúng là "${result.correctWord}". Sang vòng tiếp theo.`
+      : `${attempt}. Sang vòng tiếp theo.`,
+    whiteHatGuess: guess,
+    correctWord: result.correctWord ?? null,
+    matchType: null,
+  });
+  // Guess spent — the White Hat can now join the other eliminated players
+  io.in(PLAYER_ROOM(guesserId)).socketsJoin(ELIMINATED_ROOM(roomId));
+  await startNewRoundForRoom(io, roomId);
+}
+
+// ── Phase deadlines ────────────────────────────────────────────────
+
+const PHASE_TIMER_KEY = (roomId: string) => `phase:${roomId}`;
+
+/**
+ * (Re)arm the room's deadline on this node, or clear it if there is none.
+ * The node that calls this takes ownership, so stale timers elsewhere stand down.
+ */
+async function armPhaseTimer(io: SocketIOServer, roomId: string, owned = false) {
+  const state = await getGameState(roomId);
+  if (!state?.phaseDeadline) {
+    await releaseTimer(PHASE_TIMER_KEY(roomId));
+    return;
+  }
+
+  const deadline = state.phaseDeadline;
+
+  // Don't make the room sit out a full hint window for a player who has dropped for good or left
+  let fireAt = deadline;
+  const speakerId = currentSpeakerId(state);
+  if (speakerId) {
+    const roomState = await getRoomState(roomId);
+    const speaker = roomState?.players.find((p) => p.id === speakerId);
+    if (speaker && (!speaker.isActive || speaker.connection === 'OFFLINE')) fireAt = Date.now();
+  }
+
+  if (!owned) await claimTimer(PHASE_TIMER_KEY(roomId), fireAt);
+  scheduleAt(PHASE_TIMER_KEY(roomId), fireAt, () => onPhaseDeadline(io, roomId, deadline));
+}
+
+async function onPhaseDeadline(io: SocketIOServer, roomId: string, deadline: number) {
+  // Another node has moved the game on (or adopted the timer) since this one was armed
+  if (!(await ownsTimer(PHASE_TIMER_KEY(roomId)))) return;
+
+  const state = await getGameState(roomId);
+  if (!state || state.phaseDeadline !== deadline) return;
+
+  try {
+    await expirePhase(io, roomId, state.phase, deadline);
+  } catch (err) {
+    if (!(err instanceof LockTimeoutError)) throw err;
+    // Room is busy with another update — try again shortly rather than drop the deadline
+    const retryAt = Date.now() + TIMER_CONFIG.BUSY_RETRY_MS;
+    await claimTimer(PHASE_TIMER_KEY(roomId), retryAt);
+    scheduleAt(PHASE_TIMER_KEY(roomId), retryAt, () => onPhaseDeadline(io, roomId, deadline));
+  }
+}
+
+async function expirePhase(io: SocketIOServer, roomId: string, phase: GameState['phase'], deadline: number) {
+  if (phase === 'HINTING' || phase === 'DEFENCE') {
+    const skipped = await skipExpiredTurn(roomId, deadline);
+    if (!skipped) return;
+
+    toRoom(io, roomId).emit(SOCKET_EVENTS.PLAYER_CLUE_SUBMITTED, {
+      playerId: skipped.playerId,
+      displayName: skipped.displayName,
+      content: '',
+      skipped: true,
+      ...(skipped.defence ? { defence: true } : {}),
+    });
+    await announceTurnOutcome(io, roomId, skipped);
+  } else if (phase === 'DISCUSSION') {
+    const outcome = await closeDiscussion(roomId, deadline);
+    if (outcome) await announceTurnOutcome(io, roomId, outcome);
+  } else if (phase === 'VOTING') {
+    const resolution = await closeVoting(roomId, deadline);
+    if (resolution) await announceResolution(io, roomId, resolution);
+  } else if (phase === 'GUESSING') {
+    const result = await expireGuess(roomId, deadline);
+    if (result?.success) await announceGuess(io, roomId, result.guesserId, null, result);
+  }
+}
+
+/**
+ * Graceful shutdown for this node: tell its players, stop taking events, let
+ * in-flight game updates finish, and hand deadlines over to the other nodes.
+ */
+export async function closeSocketIO(io: SocketIOServer) {
+  io.local.emit(SOCKET_EVENTS.SERVER_SHUTDOWN, {
+    message: 'Máy chủ đang khởi động lại. Trò chơi sẽ tiếp tục khi bạn kết nối lại.',
+  });
+  await new Promise<void>((resolve) => io.close(() => resolve()));
+
+  for (const roomId of await getActiveRoomIds()) {
+    await drainGameState(roomId);
+    await releaseTimer(PHASE_TIMER_KEY(roomId));
+  }
+  cancelAllTimers();
+}
+
+/** Adopt any running game's deadline whose owner node is gone (or that no node has armed yet). */
+async function adoptOrphanedTimers(io: SocketIOServer) {
+  const roomIds = await getActiveRoomIds();
+  for (const roomId of roomIds) {
+    const state = await getGameState(roomId);
+    if (!state?.phaseDeadline) continue;
+    if (await adoptTimer(PHASE_TIMER_KEY(roomId), state.phaseDeadline)) {
+      await armPhaseTimer(io, roomId, true);
+    }
+  }
+}
+
+/**
+ * Pick up deadlines after boot and keep watching for ones orphaned by a node
+ * that went down. Returns a function that stops the sweep.
+ */
+export function watchPhaseTimers(io: SocketIOServer): () => void {
+  const sweep = () =>
+    adoptOrphanedTimers(io).catch((err) => console.error('[Timer] Sweep failed:', err));
+
+  void sweep();
+  const interval = setInterval(sweep, TIMER_CONFIG.SWEEP_INTERVAL_MS);
+  interval.unref();
+  return () => clearInterval(interval);
 }
 
-function getWinnerMessage(winner?: string) {
-  if (winner === 'WHITE_HAT') return '🎉 Mũ Trắng thắng! Đã đoán đúng từ của Dân.';
-  if (winner === 'BLACK_HAT') return '🖤 Mũ Đen thắng! Chỉ còn 2 người chơi.';
-  if (winner === 'CIVILIAN') return '👥 Dân thắng! Đã loại bỏ tất cả kẻ xâm nhập.';
-  return 'Trò chơi kết thúc.';
+/** Shared part of game:over — the headline plus why the game ended */
+function gameOverPayload({ winner, winReason, winExplanation }: WinFields) {
+  const headline = winner ? getRoleDefinition(winner).winMessage : 'Trò chơi kết thúc.';
+  return {
+    winner,
+    reason: winReason ?? null,
+    explanation: winExplanation ?? null,
+    message: winExplanation ? `${headline} ${winExplanation}` : headline,
+  };
 }
@@ -15,14 +15,73 @@ export interface JwtPayload {
   exp?: number;
 }
 
+// Shareable read-only access to one room's broadcast feed — not a login
+export interface BroadcastTokenPayload {
+  scope: 'broadcast';
+  roomId: string;
+  iat?: number;
+  exp?: number;
+}
+
+// Lets a newcomer into one room without its password, until the host revokes invites
+export interface InviteTokenPayload {
+  scope: 'invite';
+  roomId: string;
+  version: number; // Room.inviteVersion when issued — stale once the host bumps it
+  iat?: number;
+  exp?: number;
+}
+
+// ONLINE (or unset) = connected, RECONNECTING = within the grace period, OFFLINE = treated as gone
+export type ConnectionStatus = 'ONLINE' | 'RECONNECTING' | 'OFFLINE';
+
 export interface RoomPlayer {
   id: string;     // Player record id
   userId: string;
   displayName: string;
   avatar?: string | null;
-  isActive: boolean;
+  isActive: boolean; // false = left the room (or was kicked)
   isHost: boolean;
-  role?: PlayerRole | null;
+  isBanned?: boolean; // true = the host banned them, they can't rejoin
+  connection?: ConnectionStatus;
+}
+
+// Watching without a seat: sees what the room sees, is never dealt a role or a word
+export interface RoomSpectator {
+  userId: string;
+  displayName: string;
+  avatar?: string | null;
+}
+
+// FIXED = one word pair for the whole game (classic rules), PER_ROUND = new pair every round
+export type WordMode = 'FIXED' | 'PER_ROUND';
+
+// What happens when the vote ties: SKIP = nobody is eliminated, RUNOFF = revote between
+// the tied players, DEFENCE = the tied players speak once more before the runoff,
+// RANDOM = one of the tied players is eliminated at random
+export type TieRule = 'SKIP' | 'RUNOFF' | 'DEFENCE' | 'RANDOM';
+
+// OPEN = everyone sees who voted for whom as it happens, SECRET = only vote counts until the reveal
+export type BallotMode = 'OPEN' | 'SECRET';
+
+// Host-chosen rules for one room; anything left unset falls back to GAME_CONFIG
+export interface RoomSettings {
+  maxPlayers: number;
+  hintTimeSeconds: number;
+  voteTimeSeconds: number;
+  whiteHatEnabled: boolean;
+  whiteHatMinPlayers: number;
+  whiteHatCount: number;
+  blackHatCount: number;
+  categoryIds: string[]; // Empty = draw from every category
+  wordMode: WordMode;
+  tieRule: TieRule;
+  ballotMode: BallotMode;
+  guessToneInsensitive: boolean; // White Hat guess may omit tone marks ("dau tay")
+  clueMaxLength: number;
+  clueMaxWords: number;
+  discussionTimeSeconds: number; // 0 = straight from the last clue to the vote
+  broadcastDelaySeconds: number; // Stream overlays see roles and words this long after the players do
 }
 
 export interface RoomState {
@@ -31,31 +90,108 @@ export interface RoomState {
   hostId: string;
   status: string;
   maxPlayers: number;
+  isLocked: boolean; // Only players already in the room may (re)join
+  hasPassword: boolean; // Newcomers need the password or an invite link
+  settings: RoomSettings;
   players: RoomPlayer[];
+  spectators: RoomSpectator[];
 }
 
 export interface GameState {
   roomId: string;
+  gameId: string;         // Game row holding match history for this playthrough
   roundNumber: number;
   phase: string;
   turnOrder: string[];    // Player IDs in order
   currentTurnIndex: number;
   clues: ClueRecord[];
-  votes: Record<string, string>; // voterId -> targetId
+  votes: Record<string, string | null>; // voterId -> targetId, null = abstained
   eliminatedPlayers: string[];
+  roles: Record<string, PlayerRole>; // playerId -> role dealt at the start
   wordPairId: string;
+  settings: RoomSettings;  // Snapshot taken at start — settings are locked while a game runs
+  phaseDeadline: number | null; // Epoch ms when the current hint turn / voting window lapses
+  runoff?: Runoff | null;       // Set while a tied vote is being decided
+  guesserId?: string | null;    // Eliminated player allowed to guess during GUESSING
+  ghosts?: string[];            // Eliminated players who switched to the ghost view
+}
+
+// Everything hidden from the living: shown to ghosts only
+export interface GhostView {
+  roles: Record<string, PlayerRole>;
+  wordA: string; // The civilians' word
+  wordB: string;
+}
+
+export interface Runoff {
+  candidates: string[]; // Tied player IDs — the only valid targets in the revote
+  speakerIndex: number; // Next candidate to defend themselves (DEFENCE phase)
 }
 
 export interface ClueRecord {
   playerId: string;
   displayName: string;
   content: string;
+  skipped?: boolean; // true = hint window lapsed without a clue
+  defence?: boolean; // true = given by a tied player before the runoff
   createdAt: Date;
 }
 
+// Everything a (re)joining player needs to rebuild their view of a running game
+export interface GameSnapshot {
+  roomId: string;
+  round: number;
+  phase: string;
+  role: PlayerRole | null;
+  word: string | null;
+  isEliminated: boolean;
+  isSpectator: boolean;
+  turnOrder: string[];
+  currentPlayerId: string | null; // Whose turn it is during HINTING
+  clues: ClueRecord[];
+  voterIds: string[];             // Who has voted (abstentions included)
+  myVote: string | null;
+  votes: Record<string, string | null> | null; // Every ballot, OPEN rooms only
+  eliminatedPlayers: string[];
+  runoffCandidates: string[] | null;
+  phaseDeadline: number | null;
+  ghost: GhostView | null;        // Set once an eliminated player has switched to the ghost view
+}
+
+// broadcast:reveal — what the players were dealt, released to overlays once it can't be used to cheat
+export interface BroadcastReveal extends GhostView {
+  gameId: string;
+  round: number;
+}
+
+// ROOM = everyone in the room (living players only while a game runs), GHOST = eliminated players only
+export type ChatChannel = 'ROOM' | 'GHOST';
+
+export interface ChatMessage {
+  id: string;
+  channel: ChatChannel;
+  playerId: string;
+  displayName: string;
+  content: string;
+  createdAt: number; // Epoch ms
+}
+
 // Socket data attached after auth middleware
 export interface SocketData {
   user: AuthenticatedUser;
   roomId?: string;
   playerId?: string;
+  spectator?: boolean; // Joined the room to watch, has no playerId
+}
+
+// game:submit_vote payload — either a target or an explicit abstention
+export interface VotePayload {
+  targetPlayerId?: string;
+  abstain?: boolean;
+}
+
+// room:kick / room:ban / room:transfer_host payload — checked on arrival, clients may send anything
+export interface ModerationPayload {
+  roomId?: unknown;
+  playerId?: unknown;
 }
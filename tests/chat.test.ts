@@ -0,0 +1,88 @@
+/**
+ * Chat Tests
+ * Tests who may write to which chat channel, length and rate limits and the
+ * Redis-backed history (room and game state are seeded straight into Redis).
+ */
+import { describe, it, expect, beforeEach } from 'vitest';
+import { redis } from '../src/lib/redis';
+import { getChatHistory, resolveChatChannel, sendChatMessage } from '../src/services/chatService';
+import { defaultRoomSettings } from '../src/services/roomSettings';
+import { CHAT_CONFIG } from '../src/constants';
+import type { GameState } from '../src/types';
+import { seedRoomState } from './helpers';
+
+const ROOM_ID = 'chat-test-room';
+const PLAYERS = ['p0', 'p1', 'p2', 'p3', 'p4'];
+
+function gameState(overrides: Partial<GameState> = {}): GameState {
+  return {
+    roomId: ROOM_ID,
+    gameId: 'chat-test-game',
+    roundNumber: 1,
+    phase: 'DISCUSSION',
+    turnOrder: PLAYERS,
+    currentTurnIndex: PLAYERS.length,
+    clues: [],
+    votes: {},
+    eliminatedPlayers: ['p3', 'p4'],
+    roles: { p0: 'BLACK_HAT', p1: 'CIVILIAN', p2: 'CIVILIAN', p3: 'CIVILIAN', p4: 'WHITE_HAT' },
+    wordPairId: 'pair',
+    settings: defaultRoomSettings(),
+    phaseDeadline: null,
+    ...overrides,
+  };
+}
+
+async function seedRoom(status: string, state?: GameState) {
+  await redis.flushall();
+  await seedRoomState({ id: ROOM_ID, code: 'CHAT01', status, playerIds: PLAYERS }, state);
+}
+
+describe('resolveChatChannel — Ai được nói ở kênh nào', () => {
+  it('ngoài ván ai cũng nói ở kênh phòng', () => {
+    expect(resolveChatChannel(null, 'p0')).toEqual({ success: true, channel: 'ROOM' });
+  });
+
+  it('người còn sống chỉ được nói trong lượt thảo luận', () => {
+    expect(resolveChatChannel(gameState(), 'p1')).toEqual({ success: true, channel: 'ROOM' });
+    expect(resolveChatChannel(gameState({ phase: 'VOTING' }), 'p1').success).toBe(false);
+    expect(resolveChatChannel(gameState({ phase: 'HINTING' }), 'p1').success).toBe(false);
+  });
+
+  it('người bị loại nói ở kênh hồn ma, Mũ Trắng phải đoán xong trước', () => {
+    expect(resolveChatChannel(gameState({ phase: 'VOTING' }), 'p3')).toEqual({ success: true, channel: 'GHOST' });
+    expect(resolveChatChannel(gameState({ phase: 'GUESSING', guesserId: 'p4' }), 'p4').success).toBe(false);
+  });
+});
+
+describe('sendChatMessage — Gửi tin nhắn', () => {
+  beforeEach(async () => {
+    await seedRoom('IN_PROGRESS', gameState());
+  });
+
+  it('lưu tin nhắn vào lịch sử của đúng kênh', async () => {
+    await sendChatMessage(ROOM_ID, 'p1', '  Tôi nghĩ là p0  ');
+    await sendChatMessage(ROOM_ID, 'p3', 'p0 chắc chắn là Mũ Đen');
+
+    const room = await getChatHistory(ROOM_ID, 'ROOM');
+    expect(room.map((m) => m.content)).toEqual(['Tôi nghĩ là p0']);
+    expect(room[0]).toMatchObject({ playerId: 'p1', displayName: 'Người 1', channel: 'ROOM' });
+
+    const ghost = await getChatHistory(ROOM_ID, 'GHOST', 'chat-test-game');
+    expect(ghost.map((m) => m.playerId)).toEqual(['p3']);
+  });
+
+  it('từ chối tin nhắn rỗng hoặc quá dài', async () => {
+    expect((await sendChatMessage(ROOM_ID, 'p1', '   ')).success).toBe(false);
+    expect((await sendChatMessage(ROOM_ID, 'p1', 'a'.repeat(CHAT_CONFIG.MAX_LENGTH + 1))).success).toBe(false);
+  });
+
+  it('giới hạn số tin nhắn trong một khoảng thời gian', async () => {
+    for (let i = 0; i < CHAT_CONFIG.RATE_LIMIT_MESSAGES; i++) {
+      expect((await sendChatMessage(ROOM_ID, 'p2', `tin ${i}`)).success).toBe(true);
+    }
+    const limited = await sendChatMessage(ROOM_ID, 'p2', 'thêm một tin');
+    expect(limited.success).toBe(false);
+    expect(limited.message).toContain('quá nhanh');
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Clue Policy Unit Tests
+ * Tests checkClue against the current word pair and round history (no DB access).
+ */
+import { describe, it, expect } from 'vitest';
+import { checkClue, type CluePolicyContext } from '../src/services/cluePolicy';
+
+function ctx(overrides: Partial<CluePolicyContext> = {}): CluePolicyContext {
+  return {
+    secretWords: ['quả dâu tây', 'cherry'],
+    previousClues: [],
+    maxLength: 50,
+    maxWords: 5,
+    ...overrides,
+  };
+}
+
+describe('checkClue', () => {
+  it('chấp nhận gợi ý hợp lệ', () => {
+    expect(checkClue('màu đỏ', ctx())).toBeNull();
+  });
+
+  it('từ chối gợi ý chứa một trong hai từ của cặp', () => {
+    expect(checkClue('giống Cherry lắm', ctx())?.reason).toBe('CONTAINS_SECRET_WORD');
+    expect(checkClue('Dâu Tây', ctx())?.reason).toBe('CONTAINS_SECRET_WORD');
+    expect(checkClue('dâu,tây', ctx())?.reason).toBe('CONTAINS_SECRET_WORD');
+  });
+
+  it('từ chối cả khi viết không dấu hoặc sai dấu', () => {
+    expect(checkClue('dau tay', ctx())?.reason).toBe('CONTAINS_SECRET_WORD');
+    expect(checkClue('ăn dâu tay', ctx())?.reason).toBe('CONTAINS_SECRET_WORD');
+    expect(checkClue('QUA DAU TAY', ctx())?.reason).toBe('CONTAINS_SECRET_WORD');
+  });
+
+  it('chỉ so khớp nguyên từ, không so khớp một phần', () => {
+    expect(checkClue('cherryblossom', ctx())).toBeNull();
+    expect(checkClue('dâu', ctx())).toBeNull();
+  });
+
+  it('từ một âm tiết phải khớp cả dấu', () => {
+    expect(checkClue('đồ ăn cho bé', ctx({ secretWords: ['Chó', 'Mèo'] }))).toBeNull();
+    expect(checkClue('bán ở chợ', ctx({ secretWords: ['cái bàn', 'cái ghế'] }))).toBeNull();
+    expect(checkClue('con chó', ctx({ secretWords: ['Chó', 'Mèo'] }))?.reason).toBe('CONTAINS_SECRET_WORD');
+  });
+
+  it('từ chối gợi ý trùng với gợi ý trước trong vòng', () => {
+    expect(checkClue('Màu  đỏ', ctx({ previousClues: ['màu đỏ'] }))?.reason).toBe('DUPLICATE');
+  });
+
+  it('từ chối gợi ý quá dài hoặc quá nhiều từ', () => {
+    expect(checkClue('a'.repeat(11), ctx({ maxLength: 10 }))?.reason).toBe('TOO_LONG');
+    expect(checkClue('một hai ba bốn năm sáu', ctx())?.reason).toBe('TOO_MANY_WORDS');
+  });
+
+  it('từ chối gợi ý rỗng', () => {
+    expect(checkClue(' ... ', ctx())?.reason).toBe('EMPTY');
+  });
+});
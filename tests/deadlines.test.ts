@@ -0,0 +1,82 @@
+/**
+ * Phase Deadline Integration Tests
+ * Tests what the server does when a deadline fires (skipExpiredTurn, closeVoting,
+ * expireGuess) against games started through startGame(), and that a deadline
+ * which is no longer current does nothing.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { PlayerRole } from '@prisma/client';
+import { prisma } from '../src/lib/prisma';
+import {
+  closeVoting,
+  expireGuess,
+  getGameState,
+  resolveVotes,
+  skipExpiredTurn,
+  submitVote,
+} from '../src/services/gameService';
+import {
+  createTestUser, cleanupTestData, createTestWordPair, cleanupTestWordPairs,
+  startTestGame, skipToVoting, playerWithRole,
+  type TestUser,
+} from './helpers';
+
+const users: TestUser[] = [];
+let categoryId: string;
+
+beforeAll(async () => {
+  for (let i = 0; i < 6; i++) users.push(await createTestUser(`deadlines-${i}-${Date.now()}`));
+  ({ categoryId } = await createTestWordPair('__test_deadlines__', 'Sách', 'Vở'));
+});
+
+afterAll(async () => {
+  await cleanupTestData(users.map((u) => u.id));
+  await cleanupTestWordPairs([categoryId]);
+});
+
+describe('Hết giờ — Deadline của từng giai đoạn', () => {
+  it('hết giờ gợi ý: ghi lượt bỏ qua và chuyển sang người tiếp theo', async () => {
+    const roomId = await startTestGame(users.slice(0, 4));
+    const { turnOrder, phaseDeadline } = (await getGameState(roomId))!;
+
+    // A deadline that isn't the current one is stale and does nothing
+    expect(await skipExpiredTurn(roomId, phaseDeadline! + 1)).toBeNull();
+
+    const skipped = await skipExpiredTurn(roomId, phaseDeadline!);
+    expect(skipped).toMatchObject({ playerId: turnOrder[0], nextPlayerId: turnOrder[1] });
+
+    const state = await getGameState(roomId);
+    expect(state?.clues).toMatchObject([{ playerId: turnOrder[0], skipped: true }]);
+    expect(state?.currentTurnIndex).toBe(1);
+  });
+
+  it('hết giờ bỏ phiếu: kiểm phiếu với những phiếu đã có, chỉ một lần', async () => {
+    const roomId = await startTestGame(users.slice(0, 4));
+    const { turnOrder, phaseDeadline } = await skipToVoting(roomId);
+    const blackHat = await playerWithRole(roomId, PlayerRole.BLACK_HAT);
+    const voters = turnOrder.filter((id) => id !== blackHat).slice(0, 2);
+    for (const voter of voters) await submitVote(roomId, voter, blackHat);
+
+    const resolution = await closeVoting(roomId, phaseDeadline!);
+    expect(resolution).toMatchObject({ eliminatedPlayerId: blackHat, gameOver: true, winner: 'CIVILIAN' });
+    expect(await closeVoting(roomId, phaseDeadline!)).toBeNull();
+  });
+
+  it('Mũ Trắng hết giờ đoán: tính là đoán sai và ván chơi tiếp tục', async () => {
+    const roomId = await startTestGame(users.slice(0, 6));
+    const { turnOrder } = await skipToVoting(roomId);
+    const whiteHat = await playerWithRole(roomId, PlayerRole.WHITE_HAT);
+    for (const voter of turnOrder.filter((id) => id !== whiteHat)) await submitVote(roomId, voter, whiteHat);
+
+    expect(await resolveVotes(roomId)).toMatchObject({ eliminatedPlayerId: whiteHat, isWhiteHat: true });
+    const { phase, phaseDeadline } = (await getGameState(roomId))!;
+    expect(phase).toBe('GUESSING');
+    expect(phaseDeadline).toBeGreaterThan(Date.now());
+
+    expect(await expireGuess(roomId, phaseDeadline! + 1)).toBeNull();
+    expect(await expireGuess(roomId, phaseDeadline!)).toMatchObject({ success: true, correct: false, gameOver: false });
+    const seat = await prisma.gameParticipant.findFirst({ where: { playerId: whiteHat } });
+    expect(seat?.guessedCorrectly).toBe(false);
+    expect(await getGameState(roomId)).toMatchObject({ phase: 'HINTING', roundNumber: 2 });
+  });
+});
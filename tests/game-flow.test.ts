@@ -200,9 +200,11 @@ describe('Luồng kết nối Socket.IO', () => {
 
 describe('Luồng tạo và tham gia phòng', () => {
   it('host tạo phòng qua REST API', async () => {
+    // Straight from the last clue to the vote — the discussion phase is covered in chat.test.ts
     const res = await request(getTestServerUrl())
       .post('/rooms')
-      .set('Authorization', `Bearer ${users[0].token}`);
+      .set('Authorization', `Bearer ${users[0].token}`)
+      .send({ settings: { discussionTimeSeconds: 0 } });
 
     expect(res.status).toBe(201);
     roomId = res.body.room.id;
@@ -373,5 +375,52 @@ describe('Luồng giai đoạn gợi ý + bỏ phiếu (HINTING → VOTING)', ()
     const data = await voteUpdate;
     expect(data.voteCount).toBeGreaterThanOrEqual(1);
   });
-});
 
+  it('từ chối phiếu cho chính mình và cho người chơi không thuộc ván', async () => {
+    const self = await prisma.player.findFirst({ where: { roomId, userId: users[1].id } });
+
+    const selfVote = waitForEvent<{ message: string }>(sockets[1], SOCKET_EVENTS.ERROR, 5000);
+    sockets[1].emit(SOCKET_EVENTS.SUBMIT_VOTE, { targetPlayerId: self!.id });
+    expect((await selfVote).message).toContain('chính mình');
+
+    const strangerVote = waitForEvent<{ message: string }>(sockets[1], SOCKET_EVENTS.ERROR, 5000);
+    sockets[1].emit(SOCKET_EVENTS.SUBMIT_VOTE, { targetPlayerId: 'khong-ton-tai' });
+    expect((await strangerVote).message).toContain('không hợp lệ');
+  });
+
+  it('các phiếu gửi đồng thời không ghi đè nhau và vòng chỉ được xử lý một lần', async () => {
+    const room = await prisma.room.findUnique({
+      where: { id: roomId },
+      include: { players: { where: { isActive: true } } },
+    });
+    const target = room!.players.find(p => p.userId !== users[0].id)!;
+    const host = room!.players.find(p => p.userId === users[0].id)!;
+
+    const voteCounts: number[] = [];
+    const onVote = (data: { voteCount: number }) => voteCounts.push(data.voteCount);
+    let eliminations = 0;
+    const onEliminated = () => { eliminations++; };
+    sockets[0].on(SOCKET_EVENTS.VOTE_UPDATE, onVote);
+    sockets[0].on(SOCKET_EVENTS.PLAYER_ELIMINATED, onEliminated);
+
+    // The remaining three ballots arrive together; the last one triggers resolution.
+    // Self-votes are rejected, so the target votes for the host instead
+    for (let i = 1; i < NUM_PLAYERS; i++) {
+      const votesFor = target.userId === users[i].id ? host : target;
+      sockets[i].emit(SOCKET_EVENTS.SUBMIT_VOTE, { targetPlayerId: votesFor.id });
+    }
+
+    await waitForEvent(sockets[0], SOCKET_EVENTS.PLAYER_ELIMINATED, 8000);
+    // Give a duplicate resolution the chance to show up
+    await new Promise(r => setTimeout(r, 500));
+
+    sockets[0].off(SOCKET_EVENTS.VOTE_UPDATE, onVote);
+    sockets[0].off(SOCKET_EVENTS.PLAYER_ELIMINATED, onEliminated);
+
+    expect(voteCounts.sort()).toEqual([2, 3, 4]);
+    expect(eliminations).toBe(1);
+
+    const round = await prisma.round.findFirst({ where: { game: { roomId }, roundNumber: 1 } });
+    expect(await prisma.vote.count({ where: { roundId: round!.id } })).toBe(NUM_PLAYERS);
+  }, 15000);
+});
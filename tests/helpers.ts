@@ -1,12 +1,15 @@
 /**
- * Test helpers: create test server, seed test users, issue JWT tokens.
+ * Test helpers: create test server, seed test users, issue JWT tokens,
+ * seed word pairs, rooms and games.
  */
 import { createServer } from 'http';
 import type { AddressInfo } from 'net';
+import type { PlayerRole, Prisma } from '@prisma/client';
 import { prisma } from '../src/lib/prisma';
 import { signJwt } from '../src/lib/jwt';
-import { createApp } from '../src/app';
-import { setupSocketIO } from '../src/socket';
+import { getGameState, restoreGameState, setRoomState, skipExpiredTurn, startGame } from '../src/services/gameService';
+import { defaultRoomSettings } from '../src/services/roomSettings';
+import type { GameState, RoomSettings, RoomState } from '../src/types';
 
 export interface TestUser {
   id: string;
@@ -18,13 +21,20 @@ export interface TestUser {
 let _httpServer: ReturnType<typeof createServer> | null = null;
 let _port = 0;
 
+async function loadServer() {
+  const [{ createApp }, { setupSocketIO }] = await Promise.all([import('../src/app'), import('../src/socket')]);
+  return { createApp, setupSocketIO };
+}
+
 /** Start the HTTP + Socket.IO server on a random port. */
 export async function startTestServer() {
   if (_httpServer) return { port: _port };
 
+  // Loaded on demand so suites that only seed data don't need the app's OAuth config
+  const { createApp, setupSocketIO } = await loadServer();
   const app = createApp();
   _httpServer = createServer(app);
-  setupSocketIO(_httpServer);
+  app.set('io', setupSocketIO(_httpServer));
 
   await new Promise<void>((resolve) => {
     _httpServer!.listen(0, '127.0.0.1', () => {
@@ -46,6 +56,26 @@ export async function stopTestServer() {
   });
 }
 
+/**
+ * Start another server node on a random port, sharing the same (mock) Redis and DB
+ * as the main test server — for exercising cross-node broadcasts.
+ */
+export async function startExtraTestNode(): Promise<{ url: string; close: () => Promise<void> }> {
+  const { createApp, setupSocketIO } = await loadServer();
+  const app = createApp();
+  const httpServer = createServer(app);
+  const io = setupSocketIO(httpServer);
+  app.set('io', io);
+
+  await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    close: () => new Promise<void>((resolve) => io.close(() => resolve())),
+  };
+}
+
 export function getTestServerUrl() {
   return `http://127.0.0.1:${_port}`;
 }
@@ -78,17 +108,153 @@ export async function cleanupTestData(userIds: string[]) {
   const playerIds = playerRecords.map(p => p.id);
 
   if (roomIds.length) {
-    // Delete in FK-safe order: votes → clues → rounds → players → rooms
-    await prisma.vote.deleteMany({ where: { round: { roomId: { in: roomIds } } } });
-    await prisma.clue.deleteMany({ where: { round: { roomId: { in: roomIds } } } });
-    await prisma.round.deleteMany({ where: { roomId: { in: roomIds } } });
+    // Delete in FK-safe order: votes → clues → rounds → rating history → games → players → rooms
+    await prisma.vote.deleteMany({ where: { round: { game: { roomId: { in: roomIds } } } } });
+    await prisma.clue.deleteMany({ where: { round: { game: { roomId: { in: roomIds } } } } });
+    await prisma.round.deleteMany({ where: { game: { roomId: { in: roomIds } } } });
+    await prisma.ratingHistory.deleteMany({ where: { game: { roomId: { in: roomIds } } } });
+    await prisma.gameParticipant.deleteMany({ where: { game: { roomId: { in: roomIds } } } });
+    await prisma.game.deleteMany({ where: { roomId: { in: roomIds } } });
     await prisma.player.deleteMany({ where: { id: { in: playerIds } } });
     await prisma.room.deleteMany({ where: { id: { in: roomIds } } });
   }
 
+  // Ratings hang off the user rather than a room
+  await prisma.ratingHistory.deleteMany({ where: { userId: { in: userIds } } });
+  await prisma.rating.deleteMany({ where: { userId: { in: userIds } } });
   await prisma.user.deleteMany({ where: { id: { in: userIds } } });
 }
 
+/** Upsert a test category and add a word pair to it */
+export async function createTestWordPair(categoryName: string, wordA: string, wordB: string, isActive = true) {
+  const category = await prisma.wordCategory.upsert({
+    where: { name: categoryName },
+    update: {},
+    create: { name: categoryName },
+  });
+  const pair = await prisma.wordPair.create({ data: { wordA, wordB, categoryId: category.id, isActive } });
+  return { categoryId: category.id, wordPairId: pair.id };
+}
+
+/** Delete test categories and their word pairs — after cleanupTestData, which drops the games using them */
+export async function cleanupTestWordPairs(categoryIds: string[]) {
+  await prisma.wordPair.deleteMany({ where: { categoryId: { in: categoryIds } } }).catch(() => null);
+  await prisma.wordCategory.deleteMany({ where: { id: { in: categoryIds } } }).catch(() => null);
+}
+
+/** A room with a random code, hosted by `hostId` */
+export function createTestRoom(hostId: string, data: Omit<Prisma.RoomUncheckedCreateInput, 'code' | 'hostId'> = {}) {
+  return prisma.room.create({
+    data: { code: Math.random().toString(36).slice(2, 8).toUpperCase(), hostId, ...data },
+  });
+}
+
+export interface SeededSeat {
+  user: TestUser;
+  role: PlayerRole;
+  won?: boolean;
+  eliminatedRound?: number | null;
+  guessedCorrectly?: boolean | null;
+  isActive?: boolean; // false = left the room
+}
+
+export interface GameSeed {
+  wordPairId: string;
+  seats: SeededSeat[];
+  status?: 'IN_PROGRESS' | 'FINISHED'; // Of the game and its room
+  winner?: PlayerRole;
+  durationSeconds?: number;
+}
+
+/** A room hosted by the first seat's user with one game in it, dealt as `seats` says; no rounds */
+export async function seedGame({ wordPairId, seats, status = 'IN_PROGRESS', winner, durationSeconds }: GameSeed) {
+  const room = await createTestRoom(seats[0].user.id, { status });
+  const playerIds: string[] = [];
+  for (const seat of seats) {
+    const player = await prisma.player.create({
+      data: { userId: seat.user.id, roomId: room.id, isActive: seat.isActive ?? true },
+    });
+    playerIds.push(player.id);
+  }
+  const game = await prisma.game.create({
+    data: {
+      roomId: room.id,
+      wordPairId,
+      status,
+      winner,
+      durationSeconds,
+      endedAt: status === 'FINISHED' ? new Date() : null,
+      participants: {
+        create: seats.map((seat, i) => ({
+          playerId: playerIds[i],
+          userId: seat.user.id,
+          role: seat.role,
+          won: seat.won ?? false,
+          eliminatedRound: seat.eliminatedRound ?? null,
+          guessedCorrectly: seat.guessedCorrectly ?? null,
+        })),
+      },
+    },
+  });
+  return { room, gameId: game.id, playerIds };
+}
+
+/** A game started through startGame() between `users`, hosted by the first */
+export async function startTestGame(users: TestUser[], settings: Partial<RoomSettings> = {}) {
+  // No discussion phase unless asked for: the last hint turn opens the vote directly
+  const room = await createTestRoom(users[0].id, { settings: { discussionTimeSeconds: 0, ...settings } });
+  for (const u of users) await prisma.player.create({ data: { userId: u.id, roomId: room.id } });
+  const started = await startGame(room.id, users[0].id);
+  if (!started.success) throw new Error(`startGame failed: ${started.message}`);
+  return room.id;
+}
+
+/** Let every remaining hint turn lapse, which opens the vote */
+export async function skipToVoting(roomId: string) {
+  let state = await getGameState(roomId);
+  while (state?.phase === 'HINTING') {
+    await skipExpiredTurn(roomId, state.phaseDeadline!);
+    state = await getGameState(roomId);
+  }
+  return state!;
+}
+
+/** The first player dealt `role` in the room's running game */
+export async function playerWithRole(roomId: string, role: PlayerRole) {
+  const { roles } = (await getGameState(roomId))!;
+  return Object.keys(roles).find((id) => roles[id] === role)!;
+}
+
+/**
+ * Put a room straight into Redis, no DB rows: player `playerIds[i]` is user `u<i>`,
+ * the first one hosting. Seeds the room's game as well when given.
+ */
+export async function seedRoomState(
+  room: { id: string; code: string; status: string; playerIds: string[] },
+  state?: GameState,
+) {
+  const roomState: RoomState = {
+    id: room.id,
+    code: room.code,
+    hostId: 'u0',
+    status: room.status,
+    maxPlayers: 8,
+    isLocked: false,
+    hasPassword: false,
+    settings: defaultRoomSettings(),
+    players: room.playerIds.map((id, i) => ({
+      id,
+      userId: `u${i}`,
+      displayName: `Người ${i}`,
+      isActive: true,
+      isHost: i === 0,
+    })),
+    spectators: [],
+  };
+  await setRoomState(roomState);
+  if (state) await restoreGameState(state);
+}
+
 /** Create a socket.io test client connected to the test server with auth. */
 export function createSocketClient(token: string) {
   // Dynamic import at call time to avoid module circular deps
@@ -0,0 +1,54 @@
+/**
+ * Redis Lock Unit Tests
+ * Tests withLock against the in-memory Redis mock (no DB access).
+ */
+import { describe, it, expect } from 'vitest';
+import { redis } from '../src/lib/redis';
+import { withLock, LockTimeoutError } from '../src/lib/lock';
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+describe('withLock', () => {
+  it('tuần tự hoá các thao tác đọc-sửa-ghi đồng thời', async () => {
+    await redis.set('lock-test:counter', '0');
+
+    await Promise.all(
+      Array.from({ length: 10 }, () =>
+        withLock('lock:test:counter', async () => {
+          const value = Number(await redis.get('lock-test:counter'));
+          await sleep(5);
+          await redis.set('lock-test:counter', String(value + 1));
+        }),
+      ),
+    );
+
+    expect(await redis.get('lock-test:counter')).toBe('10');
+  });
+
+  it('giải phóng khoá kể cả khi hàm ném lỗi', async () => {
+    await expect(withLock('lock:test:throw', async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+    expect(await redis.get('lock:test:throw')).toBeNull();
+  });
+
+  it('báo LockTimeoutError khi chờ quá lâu', async () => {
+    await redis.set('lock:test:busy', 'someone-else', 'PX', 5000);
+    await expect(withLock('lock:test:busy', async () => 'never', { waitMs: 100 })).rejects.toBeInstanceOf(
+      LockTimeoutError,
+    );
+    await redis.del('lock:test:busy');
+  });
+
+  it('không xoá khoá đã hết hạn và bị người khác giữ', async () => {
+    await withLock(
+      'lock:test:expired',
+      async () => {
+        await sleep(80);
+        // Our lease lapsed and another holder took over
+        await redis.set('lock:test:expired', 'other-holder');
+      },
+      { ttlMs: 50 },
+    );
+    expect(await redis.get('lock:test:expired')).toBe('other-holder');
+    await redis.del('lock:test:expired');
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Match History API Integration Tests
+ * Tests: GET /users/me/matches, GET /matches/:id
+ *
+ * Seeds a finished game directly in the DB (room → players → game → round → clues/votes)
+ * rather than playing one over sockets.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import { prisma } from '../src/lib/prisma';
+import {
+  startTestServer, stopTestServer, getTestServerUrl,
+  createTestUser, cleanupTestData, createTestWordPair, cleanupTestWordPairs, seedGame,
+  type TestUser,
+} from './helpers';
+
+const users: TestUser[] = [];
+let outsider: TestUser;
+let finishedGameId: string;
+let runningGameId: string;
+let wordPairId: string;
+let categoryId: string;
+
+beforeAll(async () => {
+  await startTestServer();
+  for (let i = 0; i < 4; i++) users.push(await createTestUser(`match-${i}-${Date.now()}`));
+  outsider = await createTestUser(`match-outsider-${Date.now()}`);
+
+  ({ categoryId, wordPairId } = await createTestWordPair('__test_matches__', 'Táo', 'Lê'));
+
+  const seedPlayedGame = async (status: 'FINISHED' | 'IN_PROGRESS') => {
+    const finished = status === 'FINISHED';
+    const roles = ['BLACK_HAT', 'CIVILIAN', 'CIVILIAN', 'CIVILIAN'] as const;
+    const { gameId, playerIds } = await seedGame({
+      wordPairId,
+      status,
+      winner: finished ? 'CIVILIAN' : undefined,
+      durationSeconds: finished ? 120 : undefined,
+      seats: users.map((user, i) => ({
+        user,
+        role: roles[i],
+        eliminatedRound: i === 0 ? 1 : null,
+        won: finished && roles[i] === 'CIVILIAN',
+      })),
+    });
+    const round = await prisma.round.create({
+      data: { gameId, roundNumber: 1, wordPairId, phase: 'RESULT' },
+    });
+    for (const playerId of playerIds) {
+      await prisma.clue.create({ data: { roundId: round.id, playerId, content: 'đỏ' } });
+    }
+    for (const voterId of playerIds.slice(1)) {
+      await prisma.vote.create({ data: { roundId: round.id, voterId, targetId: playerIds[0] } });
+    }
+    return gameId;
+  };
+
+  finishedGameId = await seedPlayedGame('FINISHED');
+  runningGameId = await seedPlayedGame('IN_PROGRESS');
+});
+
+afterAll(async () => {
+  await cleanupTestData([...users.map((u) => u.id), outsider.id]);
+  await cleanupTestWordPairs([categoryId]);
+  await stopTestServer();
+});
+
+describe('GET /users/me/matches — Lịch sử trận đấu', () => {
+  it('chỉ trả về các trận đã kết thúc, kèm vai và kết quả của người chơi', async () => {
+    const res = await request(getTestServerUrl())
+      .get('/users/me/matches')
+      .set('Authorization', `Bearer ${users[1].token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.total).toBe(1);
+    expect(res.body.matches[0]).toMatchObject({
+      id: finishedGameId,
+      winner: 'CIVILIAN',
+      role: 'CIVILIAN',
+      won: true,
+      eliminatedRound: null,
+    });
+  });
+
+  it('trả về danh sách rỗng cho người chưa chơi trận nào', async () => {
+    const res = await request(getTestServerUrl())
+      .get('/users/me/matches')
+      .set('Authorization', `Bearer ${outsider.token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.matches).toHaveLength(0);
+  });
+
+  it('page và limit không hợp lệ được đưa về giới hạn cho phép', async () => {
+    const bad = await request(getTestServerUrl())
+      .get('/users/me/matches?page=abc&limit=-5')
+      .set('Authorization', `Bearer ${users[1].token}`);
+    expect(bad.status).toBe(200);
+    expect(bad.body).toMatchObject({ page: 1, limit: 1 });
+
+    const huge = await request(getTestServerUrl())
+      .get('/users/me/matches?page=0&limit=100000')
+      .set('Authorization', `Bearer ${users[1].token}`);
+    expect(huge.body).toMatchObject({ page: 1, limit: 50 });
+  });
+
+  it('trả về 401 khi không có token', async () => {
+    const res = await request(getTestServerUrl()).get('/users/me/matches');
+    expect(res.status).toBe(401);
+  });
+});
+
+describe('GET /matches/:id — Diễn biến trận đấu', () => {
+  it('trả về từng vòng với gợi ý, phiếu bầu và người bị loại', async () => {
+    const res = await request(getTestServerUrl())
+      .get(`/matches/${finishedGameId}`)
+      .set('Authorization', `Bearer ${users[0].token}`);
+
+    expect(res.status).toBe(200);
+    const { match } = res.body;
+    expect(match.wordPair).toMatchObject({ wordA: 'Táo', wordB: 'Lê' });
+    expect(match.participants).toHaveLength(4);
+    expect(match.rounds).toHaveLength(1);
+    expect(match.rounds[0].clues).toHaveLength(4);
+    expect(match.rounds[0].votes).toHaveLength(3);
+
+    const blackHat = match.participants.find((p: { role: string }) => p.role === 'BLACK_HAT');
+    expect(match.rounds[0].eliminatedPlayerIds).toEqual([blackHat.playerId]);
+  });
+
+  it('không lộ diễn biến của trận đang diễn ra', async () => {
+    const res = await request(getTestServerUrl())
+      .get(`/matches/${runningGameId}`)
+      .set('Authorization', `Bearer ${users[0].token}`);
+
+    expect(res.status).toBe(404);
+  });
+
+  it('trả về 404 với ID không tồn tại', async () => {
+    const res = await request(getTestServerUrl())
+      .get('/matches/non-existent-id')
+      .set('Authorization', `Bearer ${users[0].token}`);
+
+    expect(res.status).toBe(404);
+  });
+});
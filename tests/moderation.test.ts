@@ -0,0 +1,175 @@
+/**
+ * Host Moderation Integration Tests
+ * Tests kickPlayer (kick / ban), transferHost, setRoomLocked and migrateHost,
+ * that bans and locks are enforced by POST /rooms/join, and that malformed socket payloads are refused.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import request from 'supertest';
+import type { Socket } from 'socket.io-client';
+import { SOCKET_EVENTS } from '../src/constants';
+import { prisma } from '../src/lib/prisma';
+import {
+  getRoomState,
+  kickPlayer,
+  migrateHost,
+  setPlayerConnection,
+  setRoomLocked,
+  setRoomState,
+  transferHost,
+} from '../src/services/gameService';
+import {
+  startTestServer, stopTestServer, getTestServerUrl,
+  createTestUser, cleanupTestData, createSocketClient,
+  type TestUser,
+} from './helpers';
+
+const users: TestUser[] = [];
+
+/** A lobby with every test user in it, users[0] hosting */
+async function createLobby() {
+  const created = await request(getTestServerUrl())
+    .post('/rooms')
+    .set('Authorization', `Bearer ${users[0].token}`);
+  const { id: roomId, code } = created.body.room;
+
+  for (const u of users.slice(1)) {
+    await request(getTestServerUrl()).post('/rooms/join').set('Authorization', `Bearer ${u.token}`).send({ code });
+  }
+  const room = await getRoomState(roomId);
+  const playerIds = users.map((u) => room!.players.find((p) => p.userId === u.id)!.id);
+  return { roomId, code, playerIds };
+}
+
+function join(user: TestUser, code: string) {
+  return request(getTestServerUrl()).post('/rooms/join').set('Authorization', `Bearer ${user.token}`).send({ code });
+}
+
+function nextError(socket: Socket): Promise<{ message: string }> {
+  return new Promise((resolve, reject) => {
+    const t = setTimeout(() => reject(new Error('Timeout waiting for "error"')), 5000);
+    socket.once(SOCKET_EVENTS.ERROR, (data: { message: string }) => { clearTimeout(t); resolve(data); });
+  });
+}
+
+beforeAll(async () => {
+  await startTestServer();
+  for (let i = 0; i < 3; i++) users.push(await createTestUser(`moderation-${i}-${Date.now()}`));
+});
+
+afterAll(async () => {
+  await cleanupTestData(users.map((u) => u.id));
+  await stopTestServer();
+});
+
+describe('kickPlayer — Mời ra và cấm', () => {
+  it('người bị mời ra có thể tham gia lại, người bị cấm thì không', async () => {
+    const { roomId, code, playerIds } = await createLobby();
+
+    const kicked = await kickPlayer(roomId, users[0].id, playerIds[1]);
+    expect(kicked.success).toBe(true);
+    expect(kicked.room?.players.find((p) => p.id === playerIds[1])?.isActive).toBe(false);
+    expect((await join(users[1], code)).status).toBe(200);
+
+    const banned = await kickPlayer(roomId, users[0].id, playerIds[2], true);
+    expect(banned.success).toBe(true);
+    expect((await prisma.player.findUnique({ where: { id: playerIds[2] } }))?.isBanned).toBe(true);
+    expect((await join(users[2], code)).status).toBe(403);
+  });
+
+  it('chỉ chủ phòng được mời ra, và không được mời chính mình', async () => {
+    const { roomId, playerIds } = await createLobby();
+
+    expect((await kickPlayer(roomId, users[1].id, playerIds[2])).success).toBe(false);
+    expect((await kickPlayer(roomId, users[0].id, playerIds[0])).success).toBe(false);
+  });
+});
+
+describe('transferHost / setRoomLocked', () => {
+  it('chuyển quyền chủ phòng cho người chơi khác', async () => {
+    const { roomId, playerIds } = await createLobby();
+
+    const result = await transferHost(roomId, users[0].id, playerIds[1]);
+    expect(result.success).toBe(true);
+    expect(result.room?.hostId).toBe(users[1].id);
+    expect(result.room?.players.filter((p) => p.isHost).map((p) => p.id)).toEqual([playerIds[1]]);
+    expect((await prisma.room.findUnique({ where: { id: roomId } }))?.hostId).toBe(users[1].id);
+
+    // The old host has no say any more
+    expect((await transferHost(roomId, users[0].id, playerIds[0])).success).toBe(false);
+  });
+
+  it('phòng bị khoá chỉ cho người đang trong phòng vào lại', async () => {
+    const { roomId, code, playerIds } = await createLobby();
+    await kickPlayer(roomId, users[0].id, playerIds[2]);
+
+    const locked = await setRoomLocked(roomId, users[0].id, true);
+    expect(locked.room?.isLocked).toBe(true);
+    expect((await join(users[2], code)).status).toBe(403);
+    expect((await join(users[1], code)).status).toBe(200);
+
+    await setRoomLocked(roomId, users[0].id, false);
+    expect((await join(users[2], code)).status).toBe(200);
+  });
+});
+
+describe('migrateHost — Chủ phòng mất kết nối giữa ván', () => {
+  it('chuyển quyền cho người chơi đầu tiên còn kết nối', async () => {
+    const { roomId, playerIds } = await createLobby();
+    const room = (await getRoomState(roomId))!;
+    room.status = 'IN_PROGRESS';
+    await setRoomState(room);
+
+    await setPlayerConnection(roomId, playerIds[1], 'RECONNECTING');
+    await setPlayerConnection(roomId, playerIds[0], 'OFFLINE');
+
+    const result = await migrateHost(roomId);
+    expect(result?.hostId).toBe(users[2].id);
+    expect((await prisma.room.findUnique({ where: { id: roomId } }))?.hostId).toBe(users[2].id);
+  });
+
+  it('không làm gì khi chủ phòng vẫn còn kết nối', async () => {
+    const { roomId } = await createLobby();
+    const room = (await getRoomState(roomId))!;
+    room.status = 'IN_PROGRESS';
+    await setRoomState(room);
+
+    expect(await migrateHost(roomId)).toBeNull();
+  });
+});
+
+describe('Sự kiện quản lý phòng qua socket', () => {
+  it('payload thiếu hoặc sai kiểu bị từ chối, máy chủ vẫn chạy tiếp', async () => {
+    const { roomId } = await createLobby();
+    const socket = createSocketClient(users[0].token);
+    await new Promise<void>((resolve, reject) => {
+      socket.once('connect', () => resolve());
+      socket.once('connect_error', reject);
+      socket.connect();
+    });
+
+    try {
+      for (const [event, payload] of [
+        [SOCKET_EVENTS.KICK, undefined],
+        [SOCKET_EVENTS.BAN, {}],
+        [SOCKET_EVENTS.TRANSFER_HOST, null],
+        [SOCKET_EVENTS.LOCK, {}],
+        [SOCKET_EVENTS.KICK, { roomId, playerId: 42 }],
+      ] as const) {
+        const error = nextError(socket);
+        if (payload === undefined) socket.emit(event);
+        else socket.emit(event, payload);
+        expect((await error).message).toBeTruthy();
+      }
+
+      // Still serving: a well-formed lock goes through
+      const joined = new Promise((resolve) => socket.once(SOCKET_EVENTS.ROOM_UPDATED, resolve));
+      socket.emit(SOCKET_EVENTS.JOIN_ROOM, roomId);
+      await joined;
+      const locked = new Promise<{ room: { isLocked: boolean } }>((resolve) => socket.once(SOCKET_EVENTS.ROOM_UPDATED, resolve));
+      socket.emit(SOCKET_EVENTS.LOCK, { roomId, locked: true });
+      expect((await locked).room.isLocked).toBe(true);
+    } finally {
+      socket.disconnect();
+    }
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Multi-node Integration Tests (WebSocket)
+ * Two server instances share one Redis: players connected to different nodes
+ * must see each other's room broadcasts and receive private events sent from
+ * the other node.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { io as ioClient, type Socket } from 'socket.io-client';
+import request from 'supertest';
+import { SOCKET_EVENTS } from '../src/constants';
+import {
+  startTestServer, stopTestServer, getTestServerUrl, startExtraTestNode,
+  createTestUser, cleanupTestData, createTestWordPair, cleanupTestWordPairs,
+  type TestUser,
+} from './helpers';
+
+const NUM_PLAYERS = 4;
+const users: TestUser[] = [];
+const sockets: Socket[] = [];
+let nodeB: Awaited<ReturnType<typeof startExtraTestNode>>;
+let roomId: string;
+let roomCode: string;
+let categoryId: string;
+
+// Players 0 and 2 talk to node A, players 1 and 3 to node B
+const nodeUrl = (i: number) => (i % 2 === 0 ? getTestServerUrl() : nodeB.url);
+
+function waitForEvent<T>(socket: Socket, event: string, timeoutMs = 5000): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const t = setTimeout(() => reject(new Error(`Timeout (${timeoutMs}ms) waiting for "${event}"`)), timeoutMs);
+    socket.once(event, (data: T) => { clearTimeout(t); resolve(data); });
+  });
+}
+
+beforeAll(async () => {
+  await startTestServer();
+  nodeB = await startExtraTestNode();
+
+  for (let i = 0; i < NUM_PLAYERS; i++) {
+    users.push(await createTestUser(`mn-player-${i}-${Date.now()}`));
+  }
+
+  ({ categoryId } = await createTestWordPair('__test_multi_node__', 'Biển', 'Hồ'));
+});
+
+afterAll(async () => {
+  sockets.forEach((s) => s.disconnect());
+  await cleanupTestData(users.map((u) => u.id));
+  await cleanupTestWordPairs([categoryId]);
+  await nodeB.close();
+  await stopTestServer();
+});
+
+describe('Nhiều server dùng chung Redis', () => {
+  it('người chơi ở node khác nhau nhận được room:updated của nhau', async () => {
+    const created = await request(getTestServerUrl())
+      .post('/rooms')
+      .set('Authorization', `Bearer ${users[0].token}`);
+    roomId = created.body.room.id;
+    roomCode = created.body.room.code;
+
+    for (let i = 0; i < NUM_PLAYERS; i++) {
+      if (i > 0) {
+        await request(nodeUrl(i))
+          .post('/rooms/join')
+          .set('Authorization', `Bearer ${users[i].token}`)
+          .send({ code: roomCode });
+      }
+
+      const socket = ioClient(nodeUrl(i), { auth: { token: users[i].token }, transports: ['websocket'] });
+      await waitForEvent(socket, 'connect');
+      sockets.push(socket);
+
+      // Everyone already in the room hears the join, whichever node they're on
+      const heard = sockets.map((s) => waitForEvent<{ room: { players: unknown[] } }>(s, SOCKET_EVENTS.ROOM_UPDATED));
+      socket.emit(SOCKET_EVENTS.JOIN_ROOM, roomId);
+      const updates = await Promise.all(heard);
+      for (const u of updates) expect(u.room.players).toHaveLength(i + 1);
+    }
+  });
+
+  it('vai và từ riêng được gửi tới người chơi ở node khác', async () => {
+    const started = sockets.map((s) => waitForEvent<{ role: string }>(s, SOCKET_EVENTS.ROUND_STARTED));
+    sockets[0].emit(SOCKET_EVENTS.START_GAME, roomId);
+
+    const rounds = await Promise.all(started);
+    expect(rounds.map((r) => r.role).sort()).toEqual(['BLACK_HAT', 'CIVILIAN', 'CIVILIAN', 'CIVILIAN']);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Skill Rating Unit Tests
+ * Tests the pure team-Elo update in computeRatingChanges (no DB access).
+ */
+import { describe, it, expect } from 'vitest';
+import { computeRatingChanges, type RatedSeat } from '../src/services/ratingService';
+import { RATING_CONFIG } from '../src/constants';
+
+function seat(userId: string, role: RatedSeat['role'], won: boolean, rating = 1000, gamesPlayed = 20): RatedSeat {
+  return { userId, role, won, rating, gamesPlayed };
+}
+
+describe('computeRatingChanges', () => {
+  it('bên thắng tăng điểm, bên thua giảm điểm', () => {
+    const changes = computeRatingChanges([
+      seat('c1', 'CIVILIAN', true),
+      seat('c2', 'CIVILIAN', true),
+      seat('c3', 'CIVILIAN', true),
+      seat('b1', 'BLACK_HAT', false),
+    ]);
+
+    for (const c of changes) {
+      if (c.role === 'CIVILIAN') expect(c.after).toBeGreaterThan(c.before);
+      else expect(c.after).toBeLessThan(c.before);
+    }
+  });
+
+  it('thắng bằng vai khó được cộng nhiều hơn vai dễ trước cùng đối thủ', () => {
+    const hatsWin = computeRatingChanges([
+      seat('c1', 'CIVILIAN', false),
+      seat('b1', 'BLACK_HAT', true),
+    ]);
+    const civiliansWin = computeRatingChanges([
+      seat('c1', 'CIVILIAN', true),
+      seat('b1', 'BLACK_HAT', false),
+    ]);
+
+    const blackHatGain = hatsWin.find((c) => c.userId === 'b1')!;
+    const civilianGain = civiliansWin.find((c) => c.userId === 'c1')!;
+    expect(blackHatGain.after - blackHatGain.before).toBeGreaterThan(civilianGain.after - civilianGain.before);
+  });
+
+  it('đánh bại đội mạnh hơn được cộng nhiều điểm hơn', () => {
+    const vsWeak = computeRatingChanges([seat('c1', 'CIVILIAN', true), seat('b1', 'BLACK_HAT', false, 900)]);
+    const vsStrong = computeRatingChanges([seat('c1', 'CIVILIAN', true), seat('b1', 'BLACK_HAT', false, 1300)]);
+
+    const gain = (changes: ReturnType<typeof computeRatingChanges>) => {
+      const c = changes.find((x) => x.userId === 'c1')!;
+      return c.after - c.before;
+    };
+    expect(gain(vsStrong)).toBeGreaterThan(gain(vsWeak));
+  });
+
+  it('người chơi mới (provisional) thay đổi điểm nhanh hơn', () => {
+    const veteran = computeRatingChanges([seat('c1', 'CIVILIAN', true), seat('b1', 'BLACK_HAT', false)]);
+    const rookie = computeRatingChanges([seat('c1', 'CIVILIAN', true, 1000, 0), seat('b1', 'BLACK_HAT', false)]);
+
+    const delta = (changes: ReturnType<typeof computeRatingChanges>) => {
+      const c = changes.find((x) => x.userId === 'c1')!;
+      return c.after - c.before;
+    };
+    expect(delta(rookie) / delta(veteran)).toBeCloseTo(
+      RATING_CONFIG.PROVISIONAL_K_FACTOR / RATING_CONFIG.K_FACTOR,
+      1,
+    );
+  });
+
+  it('không tính điểm khi thiếu một bên', () => {
+    expect(computeRatingChanges([seat('c1', 'CIVILIAN', true), seat('c2', 'CIVILIAN', true)])).toEqual([]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Reconnect Integration Tests (WebSocket)
+ * A player who drops mid-game is marked RECONNECTING, gets a private game:sync
+ * when they rejoin within the grace period, and is marked OFFLINE once it lapses.
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { io as ioClient, type Socket } from 'socket.io-client';
+import request from 'supertest';
+import { SOCKET_EVENTS } from '../src/constants';
+import type { RoomState } from '../src/types';
+import {
+  startTestServer, stopTestServer, getTestServerUrl,
+  createTestUser, cleanupTestData, createTestWordPair, cleanupTestWordPairs,
+  type TestUser,
+} from './helpers';
+
+// A grace period short enough to wait out
+vi.mock('../src/constants', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../src/constants')>();
+  return { ...actual, GAME_CONFIG: { ...actual.GAME_CONFIG, RECONNECT_GRACE_SECONDS: 1 } };
+});
+
+const NUM_PLAYERS = 4;
+const users: TestUser[] = [];
+const sockets: Socket[] = [];
+const roles: string[] = [];
+let roomId: string;
+let categoryId: string;
+
+function waitForEvent<T>(socket: Socket, event: string, timeoutMs = 5000): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const t = setTimeout(() => reject(new Error(`Timeout (${timeoutMs}ms) waiting for "${event}"`)), timeoutMs);
+    socket.once(event, (data: T) => { clearTimeout(t); resolve(data); });
+  });
+}
+
+/** Resolves with the first room:updated in which `userId`'s seat has the given connection flag */
+function waitForConnection(socket: Socket, userId: string, connection: string, timeoutMs = 5000): Promise<RoomState> {
+  return new Promise((resolve, reject) => {
+    const t = setTimeout(() => {
+      socket.off(SOCKET_EVENTS.ROOM_UPDATED, onUpdate);
+      reject(new Error(`Timeout (${timeoutMs}ms) waiting for ${userId} to be ${connection}`));
+    }, timeoutMs);
+    const onUpdate = ({ room }: { room: RoomState }) => {
+      if (room.players.find((p) => p.userId === userId)?.connection !== connection) return;
+      clearTimeout(t);
+      socket.off(SOCKET_EVENTS.ROOM_UPDATED, onUpdate);
+      resolve(room);
+    };
+    socket.on(SOCKET_EVENTS.ROOM_UPDATED, onUpdate);
+  });
+}
+
+async function connect(user: TestUser): Promise<Socket> {
+  const socket = ioClient(getTestServerUrl(), { auth: { token: user.token }, transports: ['websocket'] });
+  await waitForEvent(socket, 'connect');
+  return socket;
+}
+
+beforeAll(async () => {
+  await startTestServer();
+
+  for (let i = 0; i < NUM_PLAYERS; i++) {
+    users.push(await createTestUser(`reconnect-${i}-${Date.now()}`));
+  }
+
+  ({ categoryId } = await createTestWordPair('__test_reconnect__', 'Núi', 'Đồi'));
+
+  const created = await request(getTestServerUrl())
+    .post('/rooms')
+    .set('Authorization', `Bearer ${users[0].token}`);
+  roomId = created.body.room.id;
+
+  for (let i = 0; i < NUM_PLAYERS; i++) {
+    if (i > 0) {
+      await request(getTestServerUrl())
+        .post('/rooms/join')
+        .set('Authorization', `Bearer ${users[i].token}`)
+        .send({ code: created.body.room.code });
+    }
+    const socket = await connect(users[i]);
+    const joined = waitForEvent(socket, SOCKET_EVENTS.ROOM_UPDATED);
+    socket.emit(SOCKET_EVENTS.JOIN_ROOM, roomId);
+    await joined;
+    sockets.push(socket);
+  }
+
+  const started = sockets.map((s) => waitForEvent<{ role: string }>(s, SOCKET_EVENTS.ROUND_STARTED));
+  sockets[0].emit(SOCKET_EVENTS.START_GAME, roomId);
+  for (const { role } of await Promise.all(started)) roles.push(role);
+});
+
+afterAll(async () => {
+  sockets.forEach((s) => s.disconnect());
+  await cleanupTestData(users.map((u) => u.id));
+  await cleanupTestWordPairs([categoryId]);
+  await stopTestServer();
+});
+
+describe('Mất kết nối giữa ván', () => {
+  it('vào lại trong thời gian chờ: nhận game:sync với vai và từ của mình', async () => {
+    const reconnecting = waitForConnection(sockets[0], users[1].id, 'RECONNECTING');
+    sockets[1].disconnect();
+    await reconnecting;
+
+    sockets[1] = await connect(users[1]);
+    const online = waitForConnection(sockets[0], users[1].id, 'ONLINE');
+    const synced = waitForEvent<{ roomId: string; role: string; word: string | null; isEliminated: boolean }>(
+      sockets[1],
+      SOCKET_EVENTS.GAME_SYNC,
+    );
+    sockets[1].emit(SOCKET_EVENTS.JOIN_ROOM, roomId);
+
+    const snapshot = await synced;
+    expect(snapshot).toMatchObject({ roomId, role: roles[1], isEliminated: false });
+    if (roles[1] !== 'WHITE_HAT') expect(snapshot.word).toEqual(expect.any(String));
+    await online;
+  });
+
+  it('không vào lại kịp: bị đánh dấu OFFLINE khi hết thời gian chờ', async () => {
+    const reconnecting = waitForConnection(sockets[0], users[2].id, 'RECONNECTING');
+    const offline = waitForConnection(sockets[0], users[2].id, 'OFFLINE');
+    sockets[2].disconnect();
+
+    await reconnecting;
+    const room = await offline;
+    // Still seated: dropping out is not the same as leaving
+    expect(room.players.find((p) => p.userId === users[2].id)?.isActive).toBe(true);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Restart Recovery Integration Tests
+ * Tests recoverGames(): rebuilding a lost GameState from Round/Clue/Vote rows (including
+ * a tie-break in progress), aborting games the DB can't explain and dropping stale Redis games.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { prisma } from '../src/lib/prisma';
+import { redis } from '../src/lib/redis';
+import { getGameState } from '../src/services/gameService';
+import { recoverGames } from '../src/services/recoveryService';
+import {
+  createTestUser, cleanupTestData, createTestWordPair, cleanupTestWordPairs, seedGame,
+  type TestUser,
+} from './helpers';
+
+const users: TestUser[] = [];
+let categoryId: string;
+let wordPairId: string;
+
+async function seedRunningGame(opts: { withRound: boolean; tie?: 'VOTING' | 'DEFENCE' }) {
+  const roles = ['BLACK_HAT', 'CIVILIAN', 'CIVILIAN', 'CIVILIAN'] as const;
+  const { room, gameId, playerIds } = await seedGame({
+    wordPairId,
+    seats: users.map((user, i) => ({ user, role: roles[i] })),
+  });
+
+  if (opts.withRound && opts.tie) {
+    // Everyone has spoken and the main vote tied 2-2 between players 0 and 1
+    const round = await prisma.round.create({
+      data: { gameId, roundNumber: 1, wordPairId, phase: opts.tie },
+    });
+    for (const playerId of playerIds) await prisma.clue.create({ data: { roundId: round.id, playerId, content: 'gợi ý' } });
+    const mainVotes = [1, 0, 0, 1];
+    for (const [i, voterId] of playerIds.entries()) {
+      await prisma.vote.create({ data: { roundId: round.id, voterId, targetId: playerIds[mainVotes[i]] } });
+    }
+    if (opts.tie === 'VOTING') {
+      await prisma.vote.create({ data: { roundId: round.id, voterId: playerIds[2], targetId: playerIds[0], isRunoff: true } });
+    } else {
+      await prisma.clue.create({ data: { roundId: round.id, playerId: playerIds[0], content: 'tôi vô tội', isDefence: true } });
+    }
+  } else if (opts.withRound) {
+    const round = await prisma.round.create({
+      data: { gameId, roundNumber: 1, wordPairId, phase: 'HINTING' },
+    });
+    await prisma.clue.create({ data: { roundId: round.id, playerId: playerIds[2], content: 'đỏ' } });
+    await prisma.clue.create({ data: { roundId: round.id, playerId: playerIds[0], content: '', isSkipped: true } });
+  }
+
+  return { roomId: room.id, gameId, playerIds };
+}
+
+beforeAll(async () => {
+  for (let i = 0; i < 4; i++) users.push(await createTestUser(`recovery-${i}-${Date.now()}`));
+  ({ categoryId, wordPairId } = await createTestWordPair('__test_recovery__', 'Táo', 'Lê'));
+});
+
+afterAll(async () => {
+  await cleanupTestData(users.map((u) => u.id));
+  await cleanupTestWordPairs([categoryId]);
+});
+
+describe('recoverGames — Khôi phục ván đang chơi sau khi khởi động lại', () => {
+  it('dựng lại GameState từ vòng gần nhất khi Redis bị mất', async () => {
+    const seeded = await seedRunningGame({ withRound: true });
+
+    const report = await recoverGames();
+    expect(report.restored).toContain(seeded.roomId);
+
+    const state = await getGameState(seeded.roomId);
+    expect(state).toMatchObject({ gameId: seeded.gameId, roundNumber: 1, phase: 'HINTING', currentTurnIndex: 2 });
+    // Speakers who already went keep their places at the front
+    expect(state!.turnOrder.slice(0, 2)).toEqual([seeded.playerIds[2], seeded.playerIds[0]]);
+    expect(state!.turnOrder).toHaveLength(4);
+    expect(state!.clues.map((c) => c.skipped ?? false)).toEqual([false, true]);
+    expect(state!.phaseDeadline).toBeGreaterThan(Date.now());
+  });
+
+  it('dựng lại vòng bỏ phiếu lại đang dở', async () => {
+    const seeded = await seedRunningGame({ withRound: true, tie: 'VOTING' });
+
+    const report = await recoverGames();
+    expect(report.restored).toContain(seeded.roomId);
+
+    const state = await getGameState(seeded.roomId);
+    expect(state).toMatchObject({ phase: 'VOTING', votes: { [seeded.playerIds[2]]: seeded.playerIds[0] } });
+    expect(state!.runoff?.candidates.sort()).toEqual([seeded.playerIds[0], seeded.playerIds[1]].sort());
+  });
+
+  it('dựng lại lượt thanh minh đang dở', async () => {
+    const seeded = await seedRunningGame({ withRound: true, tie: 'DEFENCE' });
+
+    const report = await recoverGames();
+    expect(report.restored).toContain(seeded.roomId);
+
+    const state = await getGameState(seeded.roomId);
+    expect(state).toMatchObject({ phase: 'DEFENCE', runoff: { speakerIndex: 1 } });
+    expect(state!.runoff?.candidates.sort()).toEqual([seeded.playerIds[0], seeded.playerIds[1]].sort());
+    expect(state!.clues.filter((c) => c.defence)).toHaveLength(1);
+    expect(state!.phaseDeadline).toBeGreaterThan(Date.now());
+  });
+
+  it('không ghi đè GameState vẫn còn trong Redis', async () => {
+    const seeded = await seedRunningGame({ withRound: true });
+    await recoverGames();
+    const before = await getGameState(seeded.roomId);
+
+    const report = await recoverGames();
+    expect(report.restored).not.toContain(seeded.roomId);
+    expect(await getGameState(seeded.roomId)).toEqual(before);
+  });
+
+  it('huỷ ván không thể dựng lại', async () => {
+    const seeded = await seedRunningGame({ withRound: false });
+
+    const report = await recoverGames();
+    expect(report.aborted).toContain(seeded.roomId);
+
+    const game = await prisma.game.findUnique({ where: { id: seeded.gameId }, include: { room: true } });
+    expect(game?.status).toBe('ABORTED');
+    expect(game?.room.status).toBe('FINISHED');
+    expect(await getGameState(seeded.roomId)).toBeNull();
+  });
+
+  it('dọn GameState trong Redis của ván mà DB đã đóng', async () => {
+    const seeded = await seedRunningGame({ withRound: true });
+    await recoverGames();
+    await prisma.game.update({ where: { id: seeded.gameId }, data: { status: 'FINISHED' } });
+
+    const report = await recoverGames();
+    expect(report.discarded).toContain(seeded.roomId);
+    expect(await redis.exists(`game:${seeded.roomId}`)).toBe(0);
+  });
+});
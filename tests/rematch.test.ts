@@ -0,0 +1,63 @@
+/**
+ * Rematch Integration Tests
+ * Tests rematchRoom(): reopening a finished room with the same code and players.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { getRoomIdByCode, rematchRoom } from '../src/services/gameService';
+import {
+  createTestUser, cleanupTestData, createTestWordPair, cleanupTestWordPairs, seedGame,
+  type TestUser,
+} from './helpers';
+
+const users: TestUser[] = [];
+let categoryId: string;
+let wordPairId: string;
+
+/** A room whose game just ended: player 1 was voted out, player 3 left the room */
+async function seedFinishedRoom() {
+  const roles = ['BLACK_HAT', 'CIVILIAN', 'CIVILIAN', 'CIVILIAN'] as const;
+  const { room, playerIds } = await seedGame({
+    wordPairId,
+    status: 'FINISHED',
+    winner: 'BLACK_HAT',
+    seats: users.map((user, i) => ({ user, role: roles[i], eliminatedRound: i === 1 ? 1 : null, isActive: i !== 3 })),
+  });
+  return { room, playerIds };
+}
+
+beforeAll(async () => {
+  for (let i = 0; i < 4; i++) users.push(await createTestUser(`rematch-${i}-${Date.now()}`));
+  ({ categoryId, wordPairId } = await createTestWordPair('__test_rematch__', 'Cam', 'Quýt'));
+});
+
+afterAll(async () => {
+  await cleanupTestData(users.map((u) => u.id));
+  await cleanupTestWordPairs([categoryId]);
+});
+
+describe('rematchRoom — Chơi lại trong cùng phòng', () => {
+  it('đưa phòng về sảnh chờ với cùng mã phòng, người bị loại vẫn được chơi tiếp', async () => {
+    const { room, playerIds } = await seedFinishedRoom();
+
+    const result = await rematchRoom(room.id, users[0].id);
+    expect(result.success).toBe(true);
+    expect(result.room?.status).toBe('WAITING');
+    expect(await getRoomIdByCode(room.code)).toBe(room.id);
+
+    // Voted out last game → still in the lobby; left the room → stays out
+    const waiting = result.room!.players.filter((p) => p.isActive).map((p) => p.id);
+    expect(waiting).toContain(playerIds[1]);
+    expect(waiting).not.toContain(playerIds[3]);
+  });
+
+  it('chỉ chủ phòng mới được mở ván mới, và chỉ khi ván đã kết thúc', async () => {
+    const { room } = await seedFinishedRoom();
+
+    expect((await rematchRoom(room.id, users[2].id)).success).toBe(false);
+
+    await rematchRoom(room.id, users[0].id);
+    const again = await rematchRoom(room.id, users[0].id);
+    expect(again.success).toBe(false);
+    expect(again.message).toContain('chưa kết thúc');
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * Role Registry Unit Tests
+ * Tests role counts, dealing and the word each role receives (no DB access).
+ */
+import { describe, it, expect } from 'vitest';
+import { PlayerRole } from '@prisma/client';
+import { countRoles, dealRoles, wordForRole } from '../src/services/roles';
+import { defaultRoomSettings } from '../src/services/roomSettings';
+import type { RoomSettings } from '../src/types';
+
+const { CIVILIAN, BLACK_HAT, WHITE_HAT } = PlayerRole;
+
+function settings(overrides: Partial<RoomSettings> = {}): RoomSettings {
+  return { ...defaultRoomSettings(), ...overrides };
+}
+
+describe('countRoles / dealRoles', () => {
+  it('chia 2 Mũ Đen, 1 Mũ Trắng và phần còn lại là Dân với 8 người', () => {
+    const counts = countRoles(8, settings({ blackHatCount: 2 }));
+    expect(counts).toEqual({ BLACK_HAT: 2, WHITE_HAT: 1, CIVILIAN: 5 });
+
+    const roles = dealRoles(8, settings({ blackHatCount: 2 }));
+    expect(roles).toHaveLength(8);
+    expect(roles.filter((r) => r === BLACK_HAT)).toHaveLength(2);
+  });
+
+  it('chia nhiều Mũ Trắng khi đủ người, không chia khi dưới ngưỡng', () => {
+    expect(countRoles(10, settings({ whiteHatCount: 2 })).WHITE_HAT).toBe(2);
+    expect(countRoles(5, settings({ whiteHatCount: 2 })).WHITE_HAT).toBe(0);
+    expect(countRoles(10, settings({ whiteHatEnabled: false })).WHITE_HAT).toBe(0);
+  });
+});
+
+describe('wordForRole', () => {
+  it('Dân nhận từ A, Mũ Đen nhận từ B, Mũ Trắng không nhận từ', () => {
+    const pair = { wordA: 'cam', wordB: 'quýt' };
+    expect(wordForRole(CIVILIAN, pair)).toBe('cam');
+    expect(wordForRole(BLACK_HAT, pair)).toBe('quýt');
+    expect(wordForRole(WHITE_HAT, pair)).toBeNull();
+  });
+});
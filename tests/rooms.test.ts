@@ -1,6 +1,7 @@
 /**
  * Rooms API Integration Tests
- * Tests: POST /rooms, POST /rooms/join, GET /rooms/:id, DELETE /rooms/:id/leave
+ * Tests: POST /rooms, POST /rooms/join, POST /rooms/spectate, POST /rooms/:id/broadcast, GET /rooms/:id,
+ *        PUT /rooms/:id/password, POST|DELETE /rooms/:id/invites, DELETE /rooms/:id/leave
  */
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import request from 'supertest';
@@ -12,13 +13,15 @@ import {
 
 let host: TestUser;
 let guest: TestUser;
+let watcher: TestUser;
 const userIds: string[] = [];
 
 beforeAll(async () => {
   await startTestServer();
   host = await createTestUser('room-host');
   guest = await createTestUser('room-guest');
-  userIds.push(host.id, guest.id);
+  watcher = await createTestUser('room-watcher');
+  userIds.push(host.id, guest.id, watcher.id);
 });
 
 afterAll(async () => {
@@ -47,6 +50,65 @@ describe('POST /rooms — Tạo phòng', () => {
     const res = await request(getTestServerUrl()).post('/rooms');
     expect(res.status).toBe(401);
   });
+
+  it('tạo phòng với cài đặt tuỳ chỉnh', async () => {
+    const res = await request(getTestServerUrl())
+      .post('/rooms')
+      .set('Authorization', `Bearer ${host.token}`)
+      .send({ settings: { maxPlayers: 6, hintTimeSeconds: 30, whiteHatEnabled: false } });
+
+    expect(res.status).toBe(201);
+    expect(res.body.room.maxPlayers).toBe(6);
+    expect(res.body.room.settings).toMatchObject({ maxPlayers: 6, hintTimeSeconds: 30, whiteHatEnabled: false });
+  });
+
+  it('trả về 400 với cài đặt không hợp lệ', async () => {
+    const res = await request(getTestServerUrl())
+      .post('/rooms')
+      .set('Authorization', `Bearer ${host.token}`)
+      .send({ settings: { hintTimeSeconds: 1 } });
+
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('PATCH /rooms/:id/settings — Cài đặt phòng', () => {
+  let roomId: string;
+
+  beforeAll(async () => {
+    const res = await request(getTestServerUrl())
+      .post('/rooms')
+      .set('Authorization', `Bearer ${host.token}`);
+    roomId = res.body.room.id;
+  });
+
+  it('host cập nhật cài đặt khi phòng đang chờ', async () => {
+    const res = await request(getTestServerUrl())
+      .patch(`/rooms/${roomId}/settings`)
+      .set('Authorization', `Bearer ${host.token}`)
+      .send({ voteTimeSeconds: 45, blackHatCount: 2 });
+
+    expect(res.status).toBe(200);
+    expect(res.body.room.settings).toMatchObject({ voteTimeSeconds: 45, blackHatCount: 2 });
+  });
+
+  it('trả về 403 khi không phải chủ phòng', async () => {
+    const res = await request(getTestServerUrl())
+      .patch(`/rooms/${roomId}/settings`)
+      .set('Authorization', `Bearer ${guest.token}`)
+      .send({ voteTimeSeconds: 45 });
+
+    expect(res.status).toBe(403);
+  });
+
+  it('trả về 400 với khoá cài đặt không được hỗ trợ', async () => {
+    const res = await request(getTestServerUrl())
+      .patch(`/rooms/${roomId}/settings`)
+      .set('Authorization', `Bearer ${host.token}`)
+      .send({ hintTime: 30 });
+
+    expect(res.status).toBe(400);
+  });
 });
 
 describe('POST /rooms/join — Tham gia phòng', () => {
@@ -151,3 +213,203 @@ describe('POST /rooms/join — Tham gia phòng', () => {
     });
   });
 });
+
+describe('POST /rooms/spectate — Xem phòng', () => {
+  let roomCode: string;
+  let roomId: string;
+
+  beforeAll(async () => {
+    const res = await request(getTestServerUrl())
+      .post('/rooms')
+      .set('Authorization', `Bearer ${host.token}`);
+    roomCode = res.body.room.code;
+    roomId = res.body.room.id;
+  });
+
+  it('người xem vào danh sách spectators, không chiếm chỗ người chơi', async () => {
+    const res = await request(getTestServerUrl())
+      .post('/rooms/spectate')
+      .set('Authorization', `Bearer ${watcher.token}`)
+      .send({ code: roomCode });
+
+    expect(res.status).toBe(200);
+    expect(res.body.room.spectators.map((s: { userId: string }) => s.userId)).toEqual([watcher.id]);
+    expect(res.body.room.players).toHaveLength(1);
+  });
+
+  it('người chơi trong phòng không thể xem phòng của mình', async () => {
+    const res = await request(getTestServerUrl())
+      .post('/rooms/spectate')
+      .set('Authorization', `Bearer ${host.token}`)
+      .send({ code: roomCode });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('tham gia làm người chơi thì rời danh sách người xem', async () => {
+    const res = await request(getTestServerUrl())
+      .post('/rooms/join')
+      .set('Authorization', `Bearer ${watcher.token}`)
+      .send({ code: roomCode });
+
+    expect(res.status).toBe(200);
+    expect(res.body.room.spectators).toHaveLength(0);
+    expect(res.body.room.players).toHaveLength(2);
+  });
+
+  it('người xem rời phòng qua DELETE /rooms/:id/leave', async () => {
+    await request(getTestServerUrl())
+      .post('/rooms/spectate')
+      .set('Authorization', `Bearer ${guest.token}`)
+      .send({ code: roomCode });
+
+    const res = await request(getTestServerUrl())
+      .delete(`/rooms/${roomId}/leave`)
+      .set('Authorization', `Bearer ${guest.token}`);
+    expect(res.status).toBe(200);
+
+    const room = await request(getTestServerUrl())
+      .get(`/rooms/${roomId}`)
+      .set('Authorization', `Bearer ${host.token}`);
+    expect(room.body.room.spectators).toHaveLength(0);
+  });
+});
+
+describe('POST /rooms/:id/broadcast — Phát trực tiếp', () => {
+  let roomId: string;
+
+  beforeAll(async () => {
+    const res = await request(getTestServerUrl())
+      .post('/rooms')
+      .set('Authorization', `Bearer ${host.token}`);
+    roomId = res.body.room.id;
+  });
+
+  it('người chơi nhận token phát trực tiếp kèm độ trễ của phòng', async () => {
+    const res = await request(getTestServerUrl())
+      .post(`/rooms/${roomId}/broadcast`)
+      .set('Authorization', `Bearer ${host.token}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ namespace: '/broadcast', delaySeconds: 60 });
+    expect(typeof res.body.token).toBe('string');
+  });
+
+  it('token phát trực tiếp không dùng để đăng nhập được', async () => {
+    const { body } = await request(getTestServerUrl())
+      .post(`/rooms/${roomId}/broadcast`)
+      .set('Authorization', `Bearer ${host.token}`);
+
+    const res = await request(getTestServerUrl())
+      .get(`/rooms/${roomId}`)
+      .set('Authorization', `Bearer ${body.token}`);
+    expect(res.status).toBe(401);
+  });
+
+  it('trả về 403 khi không ở trong phòng', async () => {
+    const res = await request(getTestServerUrl())
+      .post(`/rooms/${roomId}/broadcast`)
+      .set('Authorization', `Bearer ${watcher.token}`);
+
+    expect(res.status).toBe(403);
+  });
+});
+
+describe('Phòng riêng — mật khẩu và lời mời', () => {
+  let roomCode: string;
+  let roomId: string;
+
+  beforeAll(async () => {
+    const res = await request(getTestServerUrl())
+      .post('/rooms')
+      .set('Authorization', `Bearer ${host.token}`)
+      .send({ password: 'bi-mat' });
+    roomCode = res.body.room.code;
+    roomId = res.body.room.id;
+  });
+
+  it('phòng có mật khẩu chỉ báo hasPassword, không lộ mật khẩu', async () => {
+    const res = await request(getTestServerUrl())
+      .get(`/rooms/${roomId}`)
+      .set('Authorization', `Bearer ${host.token}`);
+
+    expect(res.body.room.hasPassword).toBe(true);
+    expect(JSON.stringify(res.body)).not.toContain('bi-mat');
+  });
+
+  it('từ chối khi thiếu hoặc sai mật khẩu, nhận khi đúng', async () => {
+    const missing = await request(getTestServerUrl())
+      .post('/rooms/join')
+      .set('Authorization', `Bearer ${guest.token}`)
+      .send({ code: roomCode });
+    expect(missing.status).toBe(403);
+
+    const wrong = await request(getTestServerUrl())
+      .post('/rooms/join')
+      .set('Authorization', `Bearer ${guest.token}`)
+      .send({ code: roomCode, password: 'sai-roi' });
+    expect(wrong.status).toBe(403);
+
+    const right = await request(getTestServerUrl())
+      .post('/rooms/join')
+      .set('Authorization', `Bearer ${guest.token}`)
+      .send({ code: roomCode, password: 'bi-mat' });
+    expect(right.status).toBe(200);
+  });
+
+  it('lời mời cho vào phòng không cần mật khẩu, kể cả để xem', async () => {
+    const invite = await request(getTestServerUrl())
+      .post(`/rooms/${roomId}/invites`)
+      .set('Authorization', `Bearer ${host.token}`);
+    expect(invite.status).toBe(201);
+
+    const res = await request(getTestServerUrl())
+      .post('/rooms/spectate')
+      .set('Authorization', `Bearer ${watcher.token}`)
+      .send({ invite: invite.body.token });
+    expect(res.status).toBe(200);
+    expect(res.body.room.id).toBe(roomId);
+  });
+
+  it('thu hồi lời mời làm mọi link cũ mất hiệu lực', async () => {
+    const { body } = await request(getTestServerUrl())
+      .post(`/rooms/${roomId}/invites`)
+      .set('Authorization', `Bearer ${host.token}`);
+
+    const revoke = await request(getTestServerUrl())
+      .delete(`/rooms/${roomId}/invites`)
+      .set('Authorization', `Bearer ${host.token}`);
+    expect(revoke.status).toBe(200);
+
+    const res = await request(getTestServerUrl())
+      .post('/rooms/join')
+      .set('Authorization', `Bearer ${watcher.token}`)
+      .send({ invite: body.token });
+    expect(res.status).toBe(403);
+  });
+
+  it('chỉ chủ phòng mới tạo lời mời và đổi mật khẩu; null gỡ mật khẩu', async () => {
+    const invite = await request(getTestServerUrl())
+      .post(`/rooms/${roomId}/invites`)
+      .set('Authorization', `Bearer ${guest.token}`);
+    expect(invite.status).toBe(403);
+
+    const cleared = await request(getTestServerUrl())
+      .put(`/rooms/${roomId}/password`)
+      .set('Authorization', `Bearer ${host.token}`)
+      .send({ password: null });
+    expect(cleared.status).toBe(200);
+    expect(cleared.body.room.hasPassword).toBe(false);
+  });
+
+  it('lời mời không dùng để đăng nhập được', async () => {
+    const { body } = await request(getTestServerUrl())
+      .post(`/rooms/${roomId}/invites`)
+      .set('Authorization', `Bearer ${host.token}`);
+
+    const res = await request(getTestServerUrl())
+      .get(`/rooms/${roomId}`)
+      .set('Authorization', `Bearer ${body.token}`);
+    expect(res.status).toBe(401);
+  });
+});
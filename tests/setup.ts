@@ -13,6 +13,13 @@ vi.mock('../src/lib/redis', async () => {
   // ioredis-mock is a drop-in replacement for ioredis
   // eslint-disable-next-line @typescript-eslint/no-require-imports
   const RedisMock = (await import('ioredis-mock')).default;
+  // The Socket.IO Redis adapter counts peer nodes through ioredis' callback-style
+  // send_command, which the mock doesn't implement
+  Object.assign(RedisMock.prototype, {
+    send_command(this: Record<string, (...a: unknown[]) => unknown>, cmd: string, args: unknown[], cb: (err: unknown, res?: unknown) => void) {
+      Promise.resolve(this[cmd.toLowerCase()](...args)).then((res) => cb(null, res), cb);
+    },
+  });
   const instance = new RedisMock();
   return {
     redis: instance,
@@ -34,5 +41,6 @@ vi.mock('../src/services/genaiService', () => ({
     const { prisma } = await import('../src/lib/prisma');
     return prisma.wordPair.findFirst({ where: { isActive: true } });
   }),
+  findEmptyCategories: vi.fn().mockResolvedValue([]),
   saveGeneratedWordPair: vi.fn().mockResolvedValue(null),
 }));
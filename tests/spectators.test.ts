@@ -0,0 +1,91 @@
+/**
+ * Spectator & Ghost View Integration Tests
+ * Tests what spectators and ghosts see of a running game (getGameSnapshot, enterGhostView).
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { enterGhostView, getGameSnapshot, restoreGameState } from '../src/services/gameService';
+import { defaultRoomSettings } from '../src/services/roomSettings';
+import {
+  createTestUser, cleanupTestData, createTestWordPair, cleanupTestWordPairs, seedGame,
+  type TestUser,
+} from './helpers';
+
+const users: TestUser[] = [];
+let categoryId: string;
+let wordPairId: string;
+
+/** A running game in VOTING: player 1 (a civilian) is out, player 2 (White Hat) may still be guessing */
+async function seedRunningGame(guesser: boolean) {
+  const roles = ['BLACK_HAT', 'CIVILIAN', 'WHITE_HAT', 'CIVILIAN', 'CIVILIAN'] as const;
+  const { room, gameId, playerIds: ids } = await seedGame({
+    wordPairId,
+    seats: users.map((user, i) => ({ user, role: roles[i], eliminatedRound: i === 1 || i === 2 ? 1 : null })),
+  });
+
+  await restoreGameState({
+    roomId: room.id,
+    gameId,
+    roundNumber: 2,
+    phase: guesser ? 'GUESSING' : 'VOTING',
+    turnOrder: [ids[0], ids[3], ids[4]],
+    currentTurnIndex: 0,
+    clues: [],
+    votes: { [ids[0]]: ids[3] },
+    eliminatedPlayers: [ids[1], ids[2]],
+    roles: Object.fromEntries(ids.map((id, i) => [id, roles[i]])),
+    wordPairId,
+    settings: defaultRoomSettings(),
+    phaseDeadline: null,
+    guesserId: guesser ? ids[2] : null,
+  });
+  return { roomId: room.id, playerIds: ids };
+}
+
+beforeAll(async () => {
+  for (let i = 0; i < 5; i++) users.push(await createTestUser(`spectate-${i}-${Date.now()}`));
+  ({ categoryId, wordPairId } = await createTestWordPair('__test_spectate__', 'Mèo', 'Hổ'));
+});
+
+afterAll(async () => {
+  await cleanupTestData(users.map((u) => u.id));
+  await cleanupTestWordPairs([categoryId]);
+});
+
+describe('getGameSnapshot — Người xem', () => {
+  it('chỉ thấy phần công khai: không có vai, từ hay phiếu của riêng ai', async () => {
+    const { roomId, playerIds } = await seedRunningGame(false);
+
+    const snapshot = await getGameSnapshot(roomId, null);
+    expect(snapshot).toMatchObject({
+      isSpectator: true,
+      role: null,
+      word: null,
+      myVote: null,
+      votes: null, // SECRET ballots by default
+      ghost: null,
+      voterIds: [playerIds[0]],
+    });
+  });
+});
+
+describe('enterGhostView — Chế độ hồn ma', () => {
+  it('người đã bị loại thấy toàn bộ vai và cả hai từ, kể cả khi vào lại', async () => {
+    const { roomId, playerIds } = await seedRunningGame(false);
+
+    const result = await enterGhostView(roomId, playerIds[1]);
+    expect(result.success).toBe(true);
+    expect(result.ghost).toMatchObject({ wordA: 'Mèo', wordB: 'Hổ' });
+    expect(result.ghost!.roles[playerIds[0]]).toBe('BLACK_HAT');
+
+    expect((await getGameSnapshot(roomId, playerIds[1]))?.ghost?.wordB).toBe('Hổ');
+    expect((await getGameSnapshot(roomId, playerIds[3]))?.ghost).toBeNull();
+  });
+
+  it('người còn sống và Mũ Trắng chưa đoán không được xem', async () => {
+    const { roomId, playerIds } = await seedRunningGame(true);
+
+    expect((await enterGhostView(roomId, playerIds[3])).success).toBe(false);
+    expect((await enterGhostView(roomId, playerIds[2])).success).toBe(false);
+    expect((await enterGhostView(roomId, playerIds[1])).success).toBe(true);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Player Stats & Leaderboard Integration Tests
+ * Tests getUserStats() aggregation over finished games, getLeaderboard() ranking,
+ * and that both stay cached until invalidateStats() runs at the end of a game.
+ */
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { prisma } from '../src/lib/prisma';
+import { getUserStats, getLeaderboard, invalidateStats, type LeaderboardQuery } from '../src/services/statsService';
+import {
+  createTestUser, cleanupTestData, createTestWordPair, cleanupTestWordPairs, seedGame,
+  type SeededSeat, type TestUser,
+} from './helpers';
+
+const users: TestUser[] = [];
+let categoryId: string;
+let wordPairId: string;
+
+type Seat = Omit<SeededSeat, 'user'>;
+
+/**
+ * A game between the first `seats.length` test users. `votes` are
+ * [roundNumber, voter index, target index or null for an abstention].
+ */
+async function seedGameWithVotes(
+  seats: Seat[],
+  votes: [number, number, number | null][] = [],
+  status: 'FINISHED' | 'IN_PROGRESS' = 'FINISHED',
+) {
+  const { gameId, playerIds } = await seedGame({
+    wordPairId,
+    status,
+    seats: seats.map((seat, i) => ({ ...seat, user: users[i] })),
+  });
+
+  const roundNumbers = [...new Set([1, ...votes.map(([n]) => n)])];
+  const rounds = new Map<number, string>();
+  for (const roundNumber of roundNumbers) {
+    const round = await prisma.round.create({ data: { gameId, roundNumber, wordPairId, phase: 'RESULT' } });
+    rounds.set(roundNumber, round.id);
+  }
+  for (const [roundNumber, voter, target] of votes) {
+    await prisma.vote.create({
+      data: {
+        roundId: rounds.get(roundNumber)!,
+        voterId: playerIds[voter],
+        targetId: target === null ? null : playerIds[target],
+      },
+    });
+  }
+}
+
+const WINS_BOARD: LeaderboardQuery = { period: 'all', sort: 'wins', page: 1, limit: 50 };
+
+const entryFor = (entries: { userId: string; wins: number }[], user: TestUser) =>
+  entries.find((e) => e.userId === user.id);
+
+beforeAll(async () => {
+  for (let i = 0; i < 4; i++) users.push(await createTestUser(`stats-${i}-${Date.now()}`));
+  ({ categoryId, wordPairId } = await createTestWordPair('__test_stats__', 'Cam', 'Quýt'));
+
+  // Black Hat (0) wins after the civilians vote out a civilian (2), then the White Hat (3)
+  await seedGameWithVotes(
+    [
+      { role: 'BLACK_HAT', won: true },
+      { role: 'CIVILIAN' },
+      { role: 'CIVILIAN', eliminatedRound: 1 },
+      { role: 'WHITE_HAT', eliminatedRound: 2, guessedCorrectly: false },
+    ],
+    [
+      [1, 0, 2],
+      [1, 1, 2],
+      [1, 3, null],
+      [2, 1, 3],
+      [2, 3, 1],
+    ],
+  );
+  // Still running: counts for nobody yet
+  await seedGameWithVotes([{ role: 'CIVILIAN' }, { role: 'BLACK_HAT' }], [[1, 1, 0]], 'IN_PROGRESS');
+  await invalidateStats(users.map((u) => u.id));
+});
+
+afterAll(async () => {
+  await invalidateStats(users.map((u) => u.id));
+  await cleanupTestData(users.map((u) => u.id));
+  await cleanupTestWordPairs([categoryId]);
+});
+
+describe('getUserStats — Thống kê người chơi', () => {
+  it('chỉ tính các ván đã kết thúc, theo từng vai', async () => {
+    const stats = await getUserStats(users[0].id);
+    expect(stats).toMatchObject({
+      gamesPlayed: 1,
+      wins: 1,
+      gamesByRole: { CIVILIAN: 0, BLACK_HAT: 1, WHITE_HAT: 0 },
+      winsByRole: { CIVILIAN: 0, BLACK_HAT: 1, WHITE_HAT: 0 },
+      survivalRate: 1,
+    });
+  });
+
+  it('độ chính xác bỏ phiếu chỉ tính phiếu bầu khi là dân thường', async () => {
+    // One vote for a civilian, one for the White Hat
+    expect((await getUserStats(users[1].id)).voteAccuracy).toEqual({ votes: 2, correct: 1, rate: 0.5 });
+    // The White Hat's own votes and abstentions don't count
+    expect((await getUserStats(users[3].id)).voteAccuracy).toEqual({ votes: 0, correct: 0, rate: 0 });
+  });
+
+  it('ghi nhận lượt đoán của Mũ Trắng và tỉ lệ sống sót', async () => {
+    const stats = await getUserStats(users[3].id);
+    expect(stats.whiteHatGuesses).toEqual({ attempts: 1, correct: 0 });
+    expect(stats.survivalRate).toBe(0);
+  });
+
+  it('giữ kết quả trong cache cho tới khi invalidateStats', async () => {
+    const before = await getUserStats(users[1].id);
+    await seedGameWithVotes([{ role: 'BLACK_HAT' }, { role: 'CIVILIAN', won: true }]);
+
+    expect(await getUserStats(users[1].id)).toEqual(before);
+
+    await invalidateStats([users[1].id]);
+    expect(await getUserStats(users[1].id)).toMatchObject({ gamesPlayed: 2, wins: 1 });
+  });
+});
+
+describe('getLeaderboard — Bảng xếp hạng', () => {
+  it('xếp hạng theo số ván thắng, lọc theo vai', async () => {
+    const { entries } = await getLeaderboard({ ...WINS_BOARD, role: 'BLACK_HAT' });
+    expect(entryFor(entries, users[0])).toMatchObject({ wins: 1, gamesPlayed: 1, winRate: 1 });
+    expect(entryFor(entries, users[1])).toBeUndefined();
+  });
+
+  it('bảng đã cache chỉ đổi sau khi một ván kết thúc gọi invalidateStats', async () => {
+    const before = await getLeaderboard(WINS_BOARD);
+    await seedGameWithVotes([{ role: 'CIVILIAN', won: true }, { role: 'BLACK_HAT' }]);
+
+    expect(await getLeaderboard(WINS_BOARD)).toEqual(before);
+
+    await invalidateStats([]);
+    const after = await getLeaderboard(WINS_BOARD);
+    expect(entryFor(after.entries, users[0])?.wins).toBe((entryFor(before.entries, users[0])?.wins ?? 0) + 1);
+  });
+});
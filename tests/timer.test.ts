@@ -0,0 +1,41 @@
+/**
+ * Timer Ownership Unit Tests
+ * Tests the cross-node lease in timerService against the Redis mock (no DB access).
+ */
+import { describe, it, expect } from 'vitest';
+import { redis } from '../src/lib/redis';
+import { claimTimer, adoptTimer, ownsTimer, releaseTimer } from '../src/services/timerService';
+
+describe('Quyền sở hữu timer giữa các node', () => {
+  it('node vừa đặt hạn chót là node sở hữu timer', async () => {
+    await claimTimer('phase:t1', Date.now() + 1000);
+    expect(await ownsTimer('phase:t1')).toBe(true);
+    await releaseTimer('phase:t1');
+    expect(await ownsTimer('phase:t1')).toBe(false);
+  });
+
+  it('node khác giành quyền thì timer cũ của node này không còn hiệu lực', async () => {
+    await claimTimer('phase:t2', Date.now() + 1000);
+    await redis.set('timer_owner:phase:t2', 'other-node');
+    expect(await ownsTimer('phase:t2')).toBe(false);
+    await redis.del('timer_owner:phase:t2');
+  });
+
+  it('chỉ nhận timer mồ côi khi không còn node nào giữ', async () => {
+    await redis.set('timer_owner:phase:t3', 'other-node', 'PX', 60_000);
+    expect(await adoptTimer('phase:t3', Date.now())).toBe(false);
+
+    // Owner's lease lapsed
+    await redis.del('timer_owner:phase:t3');
+    expect(await adoptTimer('phase:t3', Date.now())).toBe(true);
+    expect(await ownsTimer('phase:t3')).toBe(true);
+    await releaseTimer('phase:t3');
+  });
+
+  it('không xoá quyền sở hữu của node khác khi huỷ timer', async () => {
+    await redis.set('timer_owner:phase:t4', 'other-node');
+    await releaseTimer('phase:t4');
+    expect(await redis.get('timer_owner:phase:t4')).toBe('other-node');
+    await redis.del('timer_owner:phase:t4');
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Vietnamese Text Normalisation Unit Tests
+ * Tests matchGuess and its helpers (no DB access).
+ */
+import { describe, it, expect } from 'vitest';
+import { matchGuess, normalizeVietnamese, stripDiacritics } from '../src/lib/vietnamese';
+
+describe('normalizeVietnamese', () => {
+  it('gộp dạng Unicode tổ hợp, chữ hoa và khoảng trắng thừa', () => {
+    const decomposed = 'Dâu  Tây'.normalize('NFD');
+    expect(normalizeVietnamese(`  ${decomposed} `)).toBe('dâu tây');
+  });
+
+  it('bỏ dấu câu ở hai đầu', () => {
+    expect(normalizeVietnamese('"dâu tây!"')).toBe('dâu tây');
+  });
+});
+
+describe('stripDiacritics', () => {
+  it('bỏ dấu thanh, dấu mũ và chuyển đ thành d', () => {
+    expect(stripDiacritics('đường phố')).toBe('duong pho');
+  });
+});
+
+describe('matchGuess', () => {
+  it('khớp chính xác', () => {
+    expect(matchGuess('dâu tây', 'dâu tây')).toBe('EXACT');
+  });
+
+  it('khớp sau khi chuẩn hoá chữ hoa, khoảng trắng và Unicode', () => {
+    expect(matchGuess('Dâu  tây', 'dâu tây')).toBe('NORMALIZED');
+    expect(matchGuess('dâu tây'.normalize('NFD'), 'dâu tây')).toBe('NORMALIZED');
+  });
+
+  it('bỏ qua loại từ đứng đầu ở cả hai phía', () => {
+    expect(matchGuess('quả dâu tây', 'dâu tây')).toBe('CLASSIFIER');
+    expect(matchGuess('mèo', 'con mèo')).toBe('CLASSIFIER');
+  });
+
+  it('không bỏ loại từ khi nó là cả từ', () => {
+    expect(matchGuess('cái', 'con')).toBeNull();
+  });
+
+  it('chấp nhận từ thay thế của cặp từ', () => {
+    expect(matchGuess('strawberry', 'dâu tây', { aliases: ['strawberry'] })).toBe('ALIAS');
+  });
+
+  it('chỉ chấp nhận từ không dấu khi bật chế độ bỏ qua dấu', () => {
+    expect(matchGuess('dau tay', 'dâu tây')).toBeNull();
+    expect(matchGuess('dau tay', 'dâu tây', { toneInsensitive: true })).toBe('TONE_INSENSITIVE');
+  });
+
+  it('bỏ qua cả loại từ viết không dấu ở đầu', () => {
+    expect(matchGuess('qua dau tay', 'dâu tây', { toneInsensitive: true })).toBe('TONE_INSENSITIVE');
+    expect(matchGuess('dau tay', 'quả dâu tây', { toneInsensitive: true })).toBe('TONE_INSENSITIVE');
+    expect(matchGuess('qua dau tay', 'dâu tây')).toBeNull();
+  });
+
+  it('từ sai vẫn bị từ chối', () => {
+    expect(matchGuess('cherry', 'dâu tây', { toneInsensitive: true, aliases: ['strawberry'] })).toBeNull();
+  });
+});
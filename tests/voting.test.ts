@@ -0,0 +1,221 @@
+/**
+ * Vote Resolution Integration Tests
+ * Tests resolveVotes() and submitWhiteHatGuess() against games started through
+ * startGame() or seeded mid-round: how ties are broken, who is eliminated, how the
+ * game ends and who is credited with the win.
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { PlayerRole, RoundPhase } from '@prisma/client';
+import { prisma } from '../src/lib/prisma';
+import {
+  getGameState,
+  resolveVotes,
+  restoreGameState,
+  skipExpiredTurn,
+  submitVote,
+  submitWhiteHatGuess,
+} from '../src/services/gameService';
+import { getRandomWordPair } from '../src/services/genaiService';
+import { defaultRoomSettings } from '../src/services/roomSettings';
+import type { RoomSettings } from '../src/types';
+import {
+  createTestUser, cleanupTestData, createTestWordPair, cleanupTestWordPairs,
+  seedGame, startTestGame, skipToVoting, playerWithRole,
+  type TestUser,
+} from './helpers';
+
+const { CIVILIAN, BLACK_HAT, WHITE_HAT } = PlayerRole;
+
+const users: TestUser[] = [];
+let categoryId: string;
+let wordPairId: string;
+
+interface SeedOptions {
+  roles: PlayerRole[];                    // One per test user, in order
+  phase?: RoundPhase;
+  votes?: Record<number, number | null>;  // Voter index -> target index (null = abstained)
+  eliminated?: number[];
+  guesser?: number;
+  settings?: Partial<RoomSettings>;
+  phaseDeadline?: number | null;
+}
+
+/** A running game in round 1, seated as the options say; returns player IDs by user index */
+async function seedRound({ roles, phase = 'VOTING', votes = {}, eliminated = [], guesser, settings, phaseDeadline = null }: SeedOptions) {
+  const { room, gameId, playerIds: ids } = await seedGame({
+    wordPairId,
+    seats: roles.map((role, i) => ({ user: users[i], role, eliminatedRound: eliminated.includes(i) ? 1 : null })),
+  });
+  await prisma.round.create({ data: { gameId, roundNumber: 1, wordPairId, phase } });
+
+  await restoreGameState({
+    roomId: room.id,
+    gameId,
+    roundNumber: 1,
+    phase,
+    turnOrder: ids.filter((_, i) => !eliminated.includes(i)),
+    currentTurnIndex: 0,
+    clues: [],
+    votes: Object.fromEntries(
+      Object.entries(votes).map(([voter, target]) => [ids[Number(voter)], target === null ? null : ids[target]]),
+    ),
+    eliminatedPlayers: eliminated.map((i) => ids[i]),
+    roles: Object.fromEntries(ids.map((id, i) => [id, roles[i]])),
+    wordPairId,
+    settings: { ...defaultRoomSettings(), ...settings },
+    phaseDeadline,
+    guesserId: guesser === undefined ? null : ids[guesser],
+  });
+  return { roomId: room.id, gameId, ids };
+}
+
+/** Player IDs the DB credits with the win */
+async function winners(gameId: string): Promise<string[]> {
+  const seats = await prisma.gameParticipant.findMany({ where: { gameId, won: true } });
+  return seats.map((s) => s.playerId).sort();
+}
+
+/** A 5-player game whose main vote is tied 2-2 between the Black Hat and a civilian */
+async function startTiedGame(settings: Partial<RoomSettings>) {
+  const roomId = await startTestGame(users.slice(0, 5), settings);
+  const { turnOrder } = await skipToVoting(roomId);
+  const blackHat = await playerWithRole(roomId, BLACK_HAT);
+  const [civilian, ...others] = turnOrder.filter((id) => id !== blackHat);
+  await submitVote(roomId, blackHat, civilian);
+  await submitVote(roomId, civilian, blackHat);
+  await submitVote(roomId, others[0], civilian);
+  await submitVote(roomId, others[1], blackHat);
+  return { roomId, blackHat, civilian, others };
+}
+
+beforeAll(async () => {
+  for (let i = 0; i < 6; i++) users.push(await createTestUser(`voting-${i}-${Date.now()}`));
+  ({ categoryId, wordPairId } = await createTestWordPair('__test_voting__', 'Dâu tây', 'Việt quất'));
+});
+
+afterAll(async () => {
+  await cleanupTestData(users.map((u) => u.id));
+  await cleanupTestWordPairs([categoryId]);
+});
+
+describe('Ghi nhận người thắng', () => {
+  it('Mũ Đen thắng thì Mũ Trắng cùng đội cũng được tính thắng', async () => {
+    const { roomId, gameId, ids } = await seedRound({
+      roles: [BLACK_HAT, WHITE_HAT, CIVILIAN, CIVILIAN, CIVILIAN],
+      votes: { 0: 4, 1: 4, 2: 4 },
+    });
+
+    const result = await resolveVotes(roomId);
+    expect(result).toMatchObject({ eliminatedPlayerId: ids[4], gameOver: true, winner: BLACK_HAT });
+    expect(await winners(gameId)).toEqual([ids[0], ids[1]].sort());
+  });
+
+  it('Mũ Trắng đoán đúng từ thì chỉ mình họ thắng', async () => {
+    const { roomId, gameId, ids } = await seedRound({
+      roles: [BLACK_HAT, WHITE_HAT, CIVILIAN, CIVILIAN, CIVILIAN],
+      phase: 'GUESSING',
+      eliminated: [1],
+      guesser: 1,
+    });
+
+    const result = await submitWhiteHatGuess(roomId, ids[1], 'Dâu tây');
+    expect(result).toMatchObject({ correct: true, gameOver: true, winner: WHITE_HAT });
+    expect(await winners(gameId)).toEqual([ids[1]]);
+  });
+
+  it('Mũ Đen duy nhất rời phòng giữa ván → Dân thắng ở lần bỏ phiếu kế tiếp', async () => {
+    const { roomId, gameId, ids } = await seedRound({
+      roles: [BLACK_HAT, CIVILIAN, CIVILIAN, CIVILIAN],
+      votes: { 1: null, 2: null, 3: null },
+    });
+    await prisma.player.update({ where: { id: ids[0] }, data: { isActive: false } });
+
+    const result = await resolveVotes(roomId);
+    expect(result).toMatchObject({ eliminatedPlayerId: null, gameOver: true, winner: CIVILIAN });
+    expect(await getGameState(roomId)).toBeNull();
+    expect(await winners(gameId)).toEqual([ids[1], ids[2], ids[3]].sort());
+  });
+});
+
+describe('PER_ROUND — Không bốc được cặp từ mới', () => {
+  it('giữ cặp từ hiện tại và vẫn sang vòng mới với deadline mới', async () => {
+    const roomId = await startTestGame(users.slice(0, 5), { wordMode: 'PER_ROUND' });
+    const { turnOrder, wordPairId: current } = await skipToVoting(roomId);
+    const civilian = await playerWithRole(roomId, CIVILIAN);
+    for (const voter of turnOrder.filter((id) => id !== civilian)) await submitVote(roomId, voter, civilian);
+    vi.mocked(getRandomWordPair).mockResolvedValueOnce(null);
+
+    expect(await resolveVotes(roomId)).toMatchObject({ eliminatedPlayerId: civilian, gameOver: false });
+    const state = await getGameState(roomId);
+    expect(state).toMatchObject({ phase: 'HINTING', roundNumber: 2, wordPairId: current });
+    expect(state?.phaseDeadline).toBeGreaterThan(Date.now());
+  });
+});
+
+describe('Hoà phiếu — tieRule', () => {
+  it('SKIP: không loại ai, sang vòng mới', async () => {
+    const { roomId } = await startTiedGame({ tieRule: 'SKIP' });
+
+    expect(await resolveVotes(roomId)).toMatchObject({ eliminatedPlayerId: null, gameOver: false });
+    expect(await getGameState(roomId)).toMatchObject({ phase: 'HINTING', roundNumber: 2, runoff: null });
+  });
+
+  it('RANDOM: bốc thăm loại một trong những người hoà phiếu', async () => {
+    const { roomId, blackHat, civilian } = await startTiedGame({ tieRule: 'RANDOM' });
+
+    const result = await resolveVotes(roomId);
+    expect(result?.randomTieBreak).toBe(true);
+    expect([blackHat, civilian]).toContain(result?.eliminatedPlayerId);
+  });
+
+  it('RUNOFF: bỏ phiếu lại chỉ giữa những người hoà phiếu', async () => {
+    const { roomId, blackHat, civilian, others } = await startTiedGame({ tieRule: 'RUNOFF' });
+
+    const result = await resolveVotes(roomId);
+    expect(result?.runoff?.phase).toBe('VOTING');
+    expect(result?.runoff?.candidates.sort()).toEqual([blackHat, civilian].sort());
+    expect(await getGameState(roomId)).toMatchObject({ phase: 'VOTING', votes: {} });
+
+    expect((await submitVote(roomId, others[0], others[1])).success).toBe(false);
+    await submitVote(roomId, others[0], blackHat);
+    await submitVote(roomId, others[1], blackHat);
+    await submitVote(roomId, others[2], civilian);
+
+    expect(await resolveVotes(roomId)).toMatchObject({ eliminatedPlayerId: blackHat, gameOver: true, winner: CIVILIAN });
+  });
+
+  it('RUNOFF hoà lần nữa: không phân xử lần hai, không loại ai', async () => {
+    const { roomId, blackHat, civilian, others } = await startTiedGame({ tieRule: 'RUNOFF' });
+    await resolveVotes(roomId);
+
+    await submitVote(roomId, others[0], blackHat);
+    await submitVote(roomId, others[1], civilian);
+
+    expect(await resolveVotes(roomId)).toMatchObject({ eliminatedPlayerId: null, gameOver: false });
+    expect(await getGameState(roomId)).toMatchObject({ phase: 'HINTING', roundNumber: 2, runoff: null });
+  });
+
+  it('DEFENCE: từng người hoà phiếu thanh minh rồi mới bỏ phiếu lại', async () => {
+    const { roomId } = await startTiedGame({ tieRule: 'DEFENCE' });
+
+    const result = await resolveVotes(roomId);
+    expect(result?.runoff?.phase).toBe('DEFENCE');
+    const [first, second] = result!.runoff!.candidates;
+
+    let state = await getGameState(roomId);
+    expect(state?.phase).toBe('DEFENCE');
+    expect(await skipExpiredTurn(roomId, state!.phaseDeadline!)).toMatchObject({
+      playerId: first,
+      defence: true,
+      nextPlayerId: second,
+    });
+
+    state = await getGameState(roomId);
+    expect(await skipExpiredTurn(roomId, state!.phaseDeadline!)).toMatchObject({
+      playerId: second,
+      votingStarted: true,
+      runoff: true,
+    });
+    expect(await getGameState(roomId)).toMatchObject({ phase: 'VOTING', votes: {} });
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Win Condition Unit Tests
+ * Tests evaluateWin against GameState roles, eliminations and departures (no DB access).
+ */
+import { describe, it, expect } from 'vitest';
+import { PlayerRole } from '@prisma/client';
+import { evaluateAlive, evaluateWin, guessWin } from '../src/services/winConditions';
+
+const { CIVILIAN, BLACK_HAT, WHITE_HAT } = PlayerRole;
+
+describe('evaluateWin', () => {
+  const roles = { c1: CIVILIAN, c2: CIVILIAN, c3: CIVILIAN, b1: BLACK_HAT, w1: WHITE_HAT };
+
+  it('chưa ai thắng khi Dân còn đông hơn kẻ xâm nhập', () => {
+    expect(evaluateWin({ roles, eliminatedPlayers: [] })).toBeNull();
+  });
+
+  it('chỉ tính người chơi chưa bị loại', () => {
+    const win = evaluateWin({ roles, eliminatedPlayers: ['c1', 'c2'] });
+    expect(win?.winner).toBe(BLACK_HAT);
+    expect(win?.reason).toBe('IMPOSTOR_PARITY');
+  });
+
+  it('Dân chỉ thắng khi cả Mũ Đen và Mũ Trắng đều bị loại', () => {
+    expect(evaluateWin({ roles, eliminatedPlayers: ['b1'] })).toBeNull();
+
+    const win = evaluateWin({ roles, eliminatedPlayers: ['b1', 'w1'] });
+    expect(win?.winner).toBe(CIVILIAN);
+    expect(win?.reason).toBe('IMPOSTORS_ELIMINATED');
+    expect(win?.explanation).toContain('Mũ Đen và Mũ Trắng');
+  });
+
+  it('người rời phòng giữa ván được tính như đã bị loại', () => {
+    const win = evaluateWin({ roles, eliminatedPlayers: ['w1'] }, ['b1']);
+    expect(win?.winner).toBe(CIVILIAN);
+
+    expect(evaluateWin({ roles, eliminatedPlayers: ['c1'] }, ['c2'])?.reason).toBe('IMPOSTOR_PARITY');
+  });
+});
+
+describe('evaluateAlive', () => {
+  it('kẻ xâm nhập thắng khi bằng hoặc đông hơn Dân', () => {
+    expect(evaluateAlive([BLACK_HAT, CIVILIAN])?.winner).toBe(BLACK_HAT);
+    expect(evaluateAlive([BLACK_HAT, BLACK_HAT, CIVILIAN, CIVILIAN])?.winner).toBe(BLACK_HAT);
+    expect(evaluateAlive([BLACK_HAT, BLACK_HAT, CIVILIAN, CIVILIAN, CIVILIAN])).toBeNull();
+  });
+
+  it('Mũ Trắng còn sống được tính là kẻ xâm nhập và thắng khi không còn Mũ Đen', () => {
+    expect(evaluateAlive([BLACK_HAT, WHITE_HAT, CIVILIAN, CIVILIAN])?.winner).toBe(BLACK_HAT);
+    expect(evaluateAlive([WHITE_HAT, CIVILIAN])?.winner).toBe(WHITE_HAT);
+    expect(evaluateAlive([WHITE_HAT, CIVILIAN, CIVILIAN])).toBeNull();
+  });
+});
+
+describe('guessWin', () => {
+  it('ghi nhận chiến thắng do đoán đúng từ kèm lời giải thích', () => {
+    const win = guessWin(WHITE_HAT, 'dâu tây');
+    expect(win).toMatchObject({ winner: WHITE_HAT, reason: 'WORD_GUESSED' });
+    expect(win.explanation).toContain('dâu tây');
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Word Pair Draw Integration Tests
+ * Runs the real getRandomWordPair() query (setup.ts mocks it for every other suite).
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { prisma } from '../src/lib/prisma';
+import {
+  createTestUser, cleanupTestData, createTestWordPair, cleanupTestWordPairs, seedGame,
+  type TestUser,
+} from './helpers';
+
+type GenaiService = typeof import('../src/services/genaiService');
+
+let getRandomWordPair: GenaiService['getRandomWordPair'];
+let findEmptyCategories: GenaiService['findEmptyCategories'];
+let player: TestUser;
+let outsider: TestUser;
+let categoryId: string;
+let emptyCategoryId: string;
+let playedId: string;
+let freshId: string;
+
+/** A finished game in which `user` saw `wordPairId` `daysAgo` days ago */
+async function seedPlayedRound(user: TestUser, wordPairId: string, daysAgo: number) {
+  const playedAt = new Date(Date.now() - daysAgo * 24 * 3600 * 1000);
+  const { gameId } = await seedGame({ wordPairId, status: 'FINISHED', seats: [{ user, role: 'CIVILIAN' }] });
+  await prisma.round.create({ data: { gameId, roundNumber: 1, wordPairId, createdAt: playedAt } });
+}
+
+beforeAll(async () => {
+  ({ getRandomWordPair, findEmptyCategories } = await vi.importActual<GenaiService>('../src/services/genaiService'));
+  player = await createTestUser(`pairs-player-${Date.now()}`);
+  outsider = await createTestUser(`pairs-outsider-${Date.now()}`);
+  ({ categoryId, wordPairId: playedId } = await createTestWordPair('__test_pairs__', 'Bút', 'Thước'));
+  ({ wordPairId: freshId } = await createTestWordPair('__test_pairs__', 'Bàn', 'Ghế'));
+  // Its only pair is switched off
+  ({ categoryId: emptyCategoryId } = await createTestWordPair('__test_pairs_empty__', 'Kéo', 'Dao', false));
+  await seedPlayedRound(player, playedId, 1);
+});
+
+afterAll(async () => {
+  await cleanupTestData([player.id, outsider.id]);
+  await cleanupTestWordPairs([categoryId, emptyCategoryId]);
+});
+
+describe('getRandomWordPair — Bốc cặp từ', () => {
+  it('chỉ bốc cặp từ trong các danh mục đã chọn', async () => {
+    for (let i = 0; i < 5; i++) {
+      const pair = await getRandomWordPair([categoryId, emptyCategoryId]);
+      expect([playedId, freshId]).toContain(pair?.id);
+    }
+  });
+
+  it('không có cặp từ đang dùng trong danh mục thì trả về null', async () => {
+    expect(await getRandomWordPair([emptyCategoryId])).toBeNull();
+    expect(await findEmptyCategories([categoryId, emptyCategoryId])).toEqual(['__test_pairs_empty__']);
+  });
+
+  it('ưu tiên cặp từ người chơi trong phòng chưa gặp gần đây', async () => {
+    for (let i = 0; i < 5; i++) {
+      const pair = await getRandomWordPair([categoryId], [player.id]);
+      expect(pair?.id).toBe(freshId);
+    }
+  });
+
+  it('hết cặp mới thì dùng lại cặp đã chơi lâu nhất', async () => {
+    await seedPlayedRound(player, freshId, 0);
+
+    const pair = await getRandomWordPair([categoryId], [player.id]);
+    expect(pair?.id).toBe(playedId);
+  });
+
+  it('lịch sử của người ngoài phòng không ảnh hưởng', async () => {
+    const pair = await getRandomWordPair([categoryId], [outsider.id]);
+    expect([playedId, freshId]).toContain(pair?.id);
+  });
+});